@@ -0,0 +1,43 @@
+import React from 'react';
+import { COMPOST_DAYS, daysToMature, formatDate, type GameState } from '../engine';
+
+interface CompostPanelProps {
+  game: GameState;
+  onClose: () => void;
+}
+
+export const CompostPanel = ({ game, onClose }: CompostPanelProps) => {
+  const { batches, fertilizer } = game.compost;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content compost-panel" onClick={(e) => e.stopPropagation()}>
+        <button className="close-button" onClick={onClose} aria-label="Fechar composteira">&times;</button>
+        <h2>🪱 Composteira</h2>
+        <div className="compost-details">
+          <p><strong>Adubo pronto:</strong> {Math.floor(fertilizer)} {Math.floor(fertilizer) === 1 ? 'dose' : 'doses'} de adubo orgânico</p>
+        </div>
+        {batches.length === 0 ? (
+          <p className="empty-history">A composteira está vazia.</p>
+        ) : (
+          <ul className="compost-batches">
+            {batches.map(batch => {
+              const daysLeft = daysToMature(game, batch);
+              return (
+                <li key={batch.startedOn} className="compost-batch">
+                  <span>{formatDate(batch.startedOn)} · {batch.material} {batch.material === 1 ? 'parte' : 'partes'}</span>
+                  <div className="compost-progress" title={`Pronto em ${daysLeft} ${daysLeft === 1 ? 'dia' : 'dias'}`}>
+                    <div className="compost-progress-level" style={{ width: `${((COMPOST_DAYS - daysLeft) / COMPOST_DAYS) * 100}%` }} />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <p className="compost-hint">
+          A cesta traz para cá as plantas arrancadas e os restos das que morreram, e o botão ♻️ do inventário, as colheitas. Cada lote vira adubo depois de {COMPOST_DAYS} dias, mas encolhe pela metade: o adubo orgânico é limitado, e cada uso gasta uma dose.
+        </p>
+      </div>
+    </div>
+  );
+};
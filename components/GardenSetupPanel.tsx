@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { CLIMATE_IDS, CLIMATES, MAX_GARDEN_SIZE, MIN_GARDEN_SIZE, seedFromText, type ClimateId, type GameSettings, type GardenSize } from '../engine';
+
+interface GardenSetupPanelProps {
+  initialSize: GardenSize;
+  initialClimate: ClimateId;
+  onCreate: (size: GardenSize, disabledPlotIds: number[], settings: Partial<GameSettings>) => void;
+  onClose: () => void;
+}
+
+const SIDE_OPTIONS = Array.from({ length: MAX_GARDEN_SIZE - MIN_GARDEN_SIZE + 1 }, (_, i) => MIN_GARDEN_SIZE + i);
+
+// Paths are kept by row and column so they stay put while the size changes
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+export const GardenSetupPanel = ({ initialSize, initialClimate, onCreate, onClose }: GardenSetupPanelProps) => {
+  const [size, setSize] = useState<GardenSize>(initialSize);
+  const [climate, setClimate] = useState<ClimateId>(initialClimate);
+  const [seedText, setSeedText] = useState('');
+  const [paths, setPaths] = useState<Set<string>>(new Set());
+
+  const cells = Array.from({ length: size.width * size.height }, (_, id) => {
+    const row = Math.floor(id / size.width);
+    const col = id % size.width;
+    return { id, row, col, isPath: paths.has(cellKey(row, col)) };
+  });
+  const plantableCount = cells.filter(cell => !cell.isPath).length;
+
+  const togglePath = (row: number, col: number) => {
+    setPaths(prev => {
+      const next = new Set(prev);
+      const key = cellKey(row, col);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
+  const handleCreate = () => {
+    // A blank seed lets the game pick one
+    const settings = seedText.trim() ? { climate, seed: seedFromText(seedText) } : { climate };
+    onCreate(size, cells.filter(cell => cell.isPath).map(cell => cell.id), settings);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content garden-setup-panel" onClick={(e) => e.stopPropagation()}>
+        <button className="close-button" onClick={onClose} aria-label="Fechar nova horta">&times;</button>
+        <h2>Nova Horta</h2>
+        <p>Escolha o tamanho e clique nos lotes para transformá-los em caminhos, onde nada é plantado.</p>
+
+        <div className="garden-setup-sizes">
+          <label>
+            Largura
+            <select value={size.width} onChange={(e) => setSize({ ...size, width: Number(e.target.value) })}>
+              {SIDE_OPTIONS.map(side => <option key={side} value={side}>{side}</option>)}
+            </select>
+          </label>
+          <label>
+            Altura
+            <select value={size.height} onChange={(e) => setSize({ ...size, height: Number(e.target.value) })}>
+              {SIDE_OPTIONS.map(side => <option key={side} value={side}>{side}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="garden-setup-sizes">
+          <label>
+            Clima
+            <select value={climate} onChange={(e) => setClimate(e.target.value as ClimateId)}>
+              {CLIMATE_IDS.map(id => <option key={id} value={id}>{CLIMATES[id].emoji} {CLIMATES[id].name}</option>)}
+            </select>
+          </label>
+          <label>
+            Semente
+            <input
+              type="text"
+              value={seedText}
+              placeholder="aleatória"
+              onChange={(e) => setSeedText(e.target.value)}
+            />
+          </label>
+        </div>
+        <p className="garden-setup-climate">{CLIMATES[climate].description}</p>
+
+        <div className="garden-setup-grid" style={{ gridTemplateColumns: `repeat(${size.width}, 1fr)` }}>
+          {cells.map(({ id, row, col, isPath }) => (
+            <button
+              key={id}
+              className={`garden-setup-cell ${isPath ? 'is-path' : ''}`}
+              onClick={() => togglePath(row, col)}
+              aria-label={`Lote ${id + 1}: ${isPath ? 'caminho' : 'canteiro'}`}
+            />
+          ))}
+        </div>
+
+        <button className="ok-button" onClick={handleCreate} disabled={plantableCount === 0}>
+          🌱 Criar horta ({plantableCount} lotes)
+        </button>
+      </div>
+    </div>
+  );
+};
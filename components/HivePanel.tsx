@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  MAX_POPULATION,
+  SICK_HEALTH,
+  foragingEfficiency,
+  formatDate,
+  isColonyAlive,
+  type GameState,
+  type HiveRecord,
+} from '../engine';
+
+interface HivePanelProps {
+  game: GameState;
+  onClose: () => void;
+}
+
+const CHART_HEIGHT = 100;
+
+// Points of an SVG polyline, one per day, on a 0–100 scale
+const chartPoints = (history: HiveRecord[], value: (record: HiveRecord) => number) =>
+  history
+    .map((record, i) => `${history.length === 1 ? 50 : (i / (history.length - 1)) * 100},${CHART_HEIGHT - value(record)}`)
+    .join(' ');
+
+const colonyStatus = ({ hive, manualBeeMode }: GameState) => {
+  if (!isColonyAlive(hive)) return hive.history.length > 0 ? 'Colônia perdida' : 'Nenhuma colônia comprada';
+  if (!manualBeeMode) return 'Sem colmeia na horta';
+  return hive.health < SICK_HEALTH ? 'Doente' : 'Saudável';
+};
+
+export const HivePanel = ({ game, onClose }: HivePanelProps) => {
+  const { hive } = game;
+  const history = hive.history;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content hive-panel" onClick={(e) => e.stopPropagation()}>
+        <button className="close-button" onClick={onClose} aria-label="Fechar colmeia">&times;</button>
+        <h2>🐝 Colmeia</h2>
+        <div className="hive-details">
+          <p><strong>Situação:</strong> {colonyStatus(game)}</p>
+          <p><strong>População:</strong> {hive.population.toLocaleString('pt-BR')} abelhas</p>
+          <p><strong>Saúde:</strong> {Math.round(hive.health)}%</p>
+          <p><strong>Eficiência na coleta:</strong> {Math.round(foragingEfficiency(hive) * 100)}% das viagens trazem alimento</p>
+        </div>
+        {history.length === 0 ? (
+          <p className="empty-history">O histórico começa no fim do primeiro dia com a colmeia na horta.</p>
+        ) : (
+          <>
+            <svg className="hive-chart" viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" role="img" aria-label="Saúde e população da colônia por dia">
+              <line className="hive-chart-threshold" x1="0" x2="100" y1={CHART_HEIGHT - SICK_HEALTH} y2={CHART_HEIGHT - SICK_HEALTH} />
+              <polyline className="hive-chart-health" points={chartPoints(history, record => record.health)} />
+              <polyline className="hive-chart-population" points={chartPoints(history, record => (record.population / MAX_POPULATION) * 100)} />
+            </svg>
+            <div className="hive-chart-axis">
+              <span>{formatDate(history[0].day)}</span>
+              <span>{formatDate(history[history.length - 1].day)}</span>
+            </div>
+            <p className="hive-chart-legend">
+              <span className="hive-legend-health">— Saúde</span>
+              <span className="hive-legend-population">— População</span>
+              <span className="hive-legend-threshold">- - Doente abaixo daqui</span>
+            </p>
+          </>
+        )}
+        <p className="hive-hint">O agrotóxico nas flores primeiro desorienta as abelhas e só depois a colônia encolhe. Sem resíduo e com flores por perto ela se recupera em alguns dias.</p>
+      </div>
+    </div>
+  );
+};
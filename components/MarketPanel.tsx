@@ -0,0 +1,82 @@
+import React from 'react';
+import {
+  BRISK_DEMAND,
+  INVENTORY_CATEGORIES,
+  SLOW_DEMAND,
+  demandFor,
+  formatMoney,
+  getSpecies,
+  salePrice,
+  type GameAction,
+  type GameState,
+  type InventoryCategory,
+  type PlantSize,
+  type PlantType,
+} from '../engine';
+
+interface MarketPanelProps {
+  game: GameState;
+  dispatch: (action: GameAction) => void;
+  onClose: () => void;
+}
+
+const SIZES: PlantSize[] = ['small', 'normal', 'large'];
+const SIZE_LABELS: Record<PlantSize, string> = { small: 'Pequena', normal: 'Normal', large: 'Grande' };
+const CATEGORY_LABELS: Record<InventoryCategory, string> = { plain: 'Natural', organic: 'Orgânica 💩', pesticide: 'Agrotóxico ☠️' };
+
+const demandLabel = (demand: number) => {
+  if (demand >= BRISK_DEMAND) return '📈 Procura alta';
+  if (demand <= SLOW_DEMAND) return '📉 Procura baixa';
+  return 'Procura normal';
+};
+
+export const MarketPanel = ({ game, dispatch, onClose }: MarketPanelProps) => {
+  const stalls = (Object.keys(game.inventory) as PlantType[])
+    .map(type => ({
+      type,
+      lots: SIZES.flatMap(size => INVENTORY_CATEGORIES.map(category => ({ size, category, count: game.inventory[type]?.[size]?.[category] ?? 0 })))
+        .filter(lot => lot.count > 0),
+    }))
+    .filter(stall => stall.lots.length > 0);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content market-panel" onClick={(e) => e.stopPropagation()}>
+        <button className="close-button" onClick={onClose} aria-label="Fechar feira">&times;</button>
+        <h2>🏪 Feira</h2>
+        <div className="market-details">
+          <p><strong>Caixa:</strong> {formatMoney(game.market.cash)}</p>
+        </div>
+        {stalls.length === 0 ? (
+          <p className="empty-history">Nada para vender. Colha frutos no ponto para trazê-los à feira.</p>
+        ) : (
+          <div className="market-stalls">
+            {stalls.map(({ type, lots }) => (
+              <div key={type} className="market-stall">
+                <div className="market-stall-header">
+                  <span>{getSpecies(type).emoji} {type}</span>
+                  <span className="market-demand">{demandLabel(demandFor(game, type))}</span>
+                </div>
+                {lots.map(({ size, category, count }) => (
+                  <div key={`${size}-${category}`} className="market-lot">
+                    <span>{SIZE_LABELS[size]} · {CATEGORY_LABELS[category]} <small>×{count}</small></span>
+                    <button
+                      className="market-sell-button"
+                      onClick={() => dispatch({ type: 'sellProduce', plantType: type, size, category })}
+                      aria-label={`Vender ${type} ${SIZE_LABELS[size].toLowerCase()} por ${formatMoney(salePrice(game, type, size, category))}`}
+                    >
+                      Vender {formatMoney(salePrice(game, type, size, category))}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="market-hint">
+          O preço depende da espécie, do tamanho e de como foi cultivada: o orgânico vale mais, e o que foi colhido com muito resíduo de agrotóxico vale a metade. A procura muda todo dia e cai um pouco a cada venda, então não venda tudo de uma vez.
+        </p>
+      </div>
+    </div>
+  );
+};
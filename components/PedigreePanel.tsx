@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import {
+  childrenOf,
+  formatGenotype,
+  formatInbreeding,
+  fruitColor,
+  getSpecies,
+  plantVigor,
+  recessiveVigorLoci,
+  type GameState,
+  type PedigreeEntry,
+  type PedigreeRegistry,
+  type PlantVigor,
+  type PollinationMethod,
+} from '../engine';
+
+interface PedigreePanelProps {
+  game: GameState;
+  instanceId: string;
+  onClose: () => void;
+}
+
+// Generations shown above and below the selected plant
+const MAX_DEPTH = 3;
+const ROW_HEIGHT = 96;
+const NODE_WIDTH = 84;
+
+const VIGOR_LABELS: Record<PlantVigor, string> = {
+  small: 'Pequena',
+  normal: 'Normal',
+  hybrid: 'Híbrida',
+};
+
+const POLLINATION_LABELS: Record<PollinationMethod | 'seed', { icon: string; label: string }> = {
+  bee: { icon: '🐝', label: 'Abelhas' },
+  butterfly: { icon: '🦋', label: 'Borboletas' },
+  hummingbird: { icon: '🐦', label: 'Beija-flores' },
+  bat: { icon: '🦇', label: 'Morcegos' },
+  wind: { icon: '🌬️', label: 'Vento' },
+  manual: { icon: '🖌️', label: 'Polinização manual' },
+  self: { icon: '🔁', label: 'Autofecundação' },
+  buzz: { icon: '〰️', label: 'Vibração (mamangava)' },
+  clone: { icon: '🌿', label: 'Clone (estaca)' },
+  seed: { icon: '🛒', label: 'Semente comprada' },
+};
+
+interface TreeNode {
+  entry: PedigreeEntry;
+  x: number; // Percent of the panel width
+  y: number; // Pixels from the top
+}
+
+// Walks the pedigree breadth-first, one row per generation; a plant reached
+// twice (common with inbreeding) is drawn once, in the nearest row.
+const collectRows = (focus: PedigreeEntry, next: (entry: PedigreeEntry) => PedigreeEntry[]) => {
+  const seen = new Set([focus.instanceId]);
+  const rows: PedigreeEntry[][] = [];
+  let current = [focus];
+  for (let depth = 0; depth < MAX_DEPTH && current.length > 0; depth++) {
+    const row: PedigreeEntry[] = [];
+    for (const entry of current.flatMap(next)) {
+      if (seen.has(entry.instanceId)) continue;
+      seen.add(entry.instanceId);
+      row.push(entry);
+    }
+    if (row.length > 0) rows.push(row);
+    current = row;
+  }
+  return rows;
+};
+
+const layoutTree = (pedigree: PedigreeRegistry, focus: PedigreeEntry) => {
+  const parentsOf = (entry: PedigreeEntry) => entry.parentIds.flatMap(id => (pedigree[id] ? [pedigree[id]] : []));
+  const ancestors = collectRows(focus, parentsOf).reverse();
+  const descendants = collectRows(focus, entry => childrenOf(pedigree, entry.instanceId));
+  const rows = [...ancestors, [focus], ...descendants];
+
+  const nodes: TreeNode[] = rows.flatMap((row, rowIndex) =>
+    row.map((entry, column) => ({
+      entry,
+      x: ((column + 0.5) / row.length) * 100,
+      y: rowIndex * ROW_HEIGHT + ROW_HEIGHT / 2,
+    })),
+  );
+  return {
+    nodes,
+    width: Math.max(...rows.map(row => row.length)) * NODE_WIDTH,
+    height: rows.length * ROW_HEIGHT,
+  };
+};
+
+const explainVigor = (entry: PedigreeEntry) => {
+  switch (plantVigor(entry)) {
+    case 'small': {
+      const loci = recessiveVigorLoci(entry.genotype).join(', ');
+      const cause = entry.inbreeding > 0
+        ? `Os pais eram aparentados (F = ${formatInbreeding(entry.inbreeding)}), o que torna essa dose dupla mais provável.`
+        : 'Os pais não eram aparentados: foi azar no sorteio dos gametas.';
+      return `Pequena porque herdou o alelo recessivo v do pai e da mãe no gene de vigor ${loci}. ${cause}`;
+    }
+    case 'hybrid':
+      return 'Híbrida: heterozigota (Vv) em vários genes de vigor, então os alelos dominantes escondem todos os recessivos.';
+    case 'normal':
+      return 'Normal: tem pelo menos um alelo dominante V em cada gene de vigor.';
+  }
+};
+
+export const PedigreePanel = ({ game, instanceId, onClose }: PedigreePanelProps) => {
+  const [focusId, setFocusId] = useState(instanceId);
+  const { pedigree } = game;
+  const focus = pedigree[focusId];
+  const focusOrigin = POLLINATION_LABELS[focus?.pollination ?? 'seed'];
+
+  const { nodes, width, height } = focus ? layoutTree(pedigree, focus) : { nodes: [], width: 0, height: 0 };
+  const positions = new Map(nodes.map(node => [node.entry.instanceId, node]));
+  const edges = nodes.flatMap(child =>
+    child.entry.parentIds.flatMap(parentId => {
+      const parent = positions.get(parentId);
+      return parent ? [{ from: parent, to: child }] : [];
+    }),
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content pedigree-panel" onClick={(e) => e.stopPropagation()}>
+        <button className="close-button" onClick={onClose} aria-label="Fechar árvore genealógica">&times;</button>
+        <h2>Árvore Genealógica</h2>
+
+        {!focus ? (
+          <p className="empty-history">Não há registro desta planta.</p>
+        ) : (
+          <>
+            <div className="pedigree-details">
+              <p>
+                <strong>{getSpecies(focus.type).emoji} {focus.type}</strong> · {VIGOR_LABELS[plantVigor(focus)]} · fruto {fruitColor(focus)}
+                {focus.harvestedAt !== undefined && ' · colhida'}
+                {focus.diedAt !== undefined && ' · morreu'}
+              </p>
+              <p>
+                {focusOrigin.icon} {focusOrigin.label} · Geração {focus.generation} · F = {formatInbreeding(focus.inbreeding)}
+              </p>
+              <p className="pedigree-genotype">Genótipo: {formatGenotype(focus.genotype)}</p>
+              <p>{explainVigor(focus)}</p>
+            </div>
+
+            <div className="pedigree-scroll">
+              <div className="pedigree-tree" style={{ height, minWidth: width }}>
+                <svg className="pedigree-edges" viewBox={`0 0 100 ${height}`} preserveAspectRatio="none">
+                  {edges.map(({ from, to }) => (
+                    <line
+                      key={`${from.entry.instanceId}-${to.entry.instanceId}`}
+                      x1={from.x}
+                      y1={from.y}
+                      x2={to.x}
+                      y2={to.y}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ))}
+                </svg>
+                {nodes.map(({ entry, x, y }) => {
+                  const vigor = plantVigor(entry);
+                  const pollination = POLLINATION_LABELS[entry.pollination ?? 'seed'];
+                  return (
+                    <button
+                      key={entry.instanceId}
+                      className={`pedigree-node pedigree-${vigor} ${entry.instanceId === focusId ? 'is-focus' : ''} ${entry.harvestedAt !== undefined || entry.diedAt !== undefined ? 'is-harvested' : ''}`}
+                      style={{ left: `${x}%`, top: y }}
+                      onClick={() => setFocusId(entry.instanceId)}
+                      title={`${entry.type} · ${VIGOR_LABELS[vigor]} · ${pollination.label} · F = ${formatInbreeding(entry.inbreeding)}`}
+                    >
+                      <span className="pedigree-emoji">{getSpecies(entry.type).emoji}</span>
+                      <span className="pedigree-meta">
+                        {VIGOR_LABELS[vigor]} {pollination.icon}
+                        {entry.harvestedAt !== undefined && ' 🧺'}
+                        {entry.diedAt !== undefined && ' 🥀'}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <p className="pedigree-hint">Clique em um parente para ver a história dele.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import type { GameState } from '../engine';
+import { AUTOSAVE_SLOT, deleteSlot, listSlots, loadFromSlot, saveToSlot } from '../persistence/localSlots';
+import { SaveFormatError } from '../persistence/saveFormat';
+
+interface SaveSlotsPanelProps {
+  game: GameState;
+  onLoad: (state: GameState) => void;
+  onNewGame: () => void;
+  onClose: () => void;
+}
+
+const formatSavedAt = (savedAt: number) =>
+  savedAt > 0
+    ? new Date(savedAt).toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+    : '—';
+
+export const SaveSlotsPanel = ({ game, onLoad, onNewGame, onClose }: SaveSlotsPanelProps) => {
+  const [slots, setSlots] = useState(listSlots);
+  const [slotName, setSlotName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => setSlots(listSlots());
+
+  const handleSave = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      saveToSlot(trimmed, game);
+      setSlotName('');
+      setError(null);
+    } catch {
+      setError('Não foi possível salvar: o armazenamento do navegador está cheio ou bloqueado.');
+    }
+    refresh();
+  };
+
+  const handleLoad = (name: string) => {
+    try {
+      const state = loadFromSlot(name);
+      if (state) {
+        onLoad(state);
+        onClose();
+      }
+    } catch (e) {
+      setError(e instanceof SaveFormatError ? e.message : 'Não foi possível carregar este jogo.');
+    }
+  };
+
+  const handleDelete = (name: string) => {
+    deleteSlot(name);
+    refresh();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content save-panel" onClick={(e) => e.stopPropagation()}>
+        <button className="close-button" onClick={onClose} aria-label="Fechar jogos salvos">&times;</button>
+        <h2>Jogos Salvos</h2>
+
+        <form
+          className="save-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave(slotName);
+          }}
+        >
+          <input
+            className="save-name-input"
+            value={slotName}
+            onChange={(e) => setSlotName(e.target.value)}
+            placeholder="Nome do jogo"
+            aria-label="Nome do jogo salvo"
+            maxLength={40}
+          />
+          <button type="submit" className="ok-button" disabled={!slotName.trim()}>Salvar</button>
+        </form>
+
+        {error && <p className="save-error" role="alert">{error}</p>}
+
+        {slots.length === 0 ? (
+          <p className="empty-history">Nenhum jogo salvo ainda.</p>
+        ) : (
+          <ul className="save-slot-list">
+            {slots.map(slot => (
+              <li key={slot.name} className="save-slot">
+                <div className="save-slot-info">
+                  <span className="save-slot-name">{slot.name === AUTOSAVE_SLOT ? 'Salvamento automático' : slot.name}</span>
+                  <span className="save-slot-date">{formatSavedAt(slot.savedAt)}</span>
+                </div>
+                <div className="save-slot-actions">
+                  <button className="time-button" onClick={() => handleLoad(slot.name)} aria-label={`Carregar ${slot.name}`}>📂</button>
+                  {slot.name !== AUTOSAVE_SLOT && (
+                    <>
+                      <button className="time-button" onClick={() => handleSave(slot.name)} aria-label={`Sobrescrever ${slot.name}`}>💾</button>
+                      <button className="time-button" onClick={() => handleDelete(slot.name)} aria-label={`Excluir ${slot.name}`}>🗑️</button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          className="new-game-button"
+          onClick={() => {
+            onNewGame();
+            onClose();
+          }}
+        >
+          🌱 Novo jogo
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import type { GameState, GardenLayout } from '../engine';
+import { SaveFormatError } from '../persistence/saveFormat';
+import { downloadSnapshot, parseSnapshotJson, snapshotLink } from '../persistence/snapshot';
+
+interface SnapshotPanelProps {
+  game: GameState;
+  initialError?: string | null;
+  onImport: (layout: GardenLayout) => void;
+  onClose: () => void;
+}
+
+export const SnapshotPanel = ({ game, initialError = null, onImport, onClose }: SnapshotPanelProps) => {
+  const [error, setError] = useState<string | null>(initialError);
+  const [link, setLink] = useState<string | null>(null);
+  const [isCopied, setCopied] = useState(false);
+
+  const handleCreateLink = async () => {
+    try {
+      const url = await snapshotLink(game);
+      setLink(url);
+      setError(null);
+      try {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+      } catch {
+        // Clipboard may be blocked; the link is still shown to copy by hand
+        setCopied(false);
+      }
+    } catch {
+      setError('Este navegador não consegue gerar links compactados.');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(parseSnapshotJson(await file.text()));
+      onClose();
+    } catch (e) {
+      setError(e instanceof SaveFormatError ? e.message : 'Não foi possível ler o arquivo.');
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content snapshot-panel" onClick={(e) => e.stopPropagation()}>
+        <button className="close-button" onClick={onClose} aria-label="Fechar compartilhamento">&times;</button>
+        <h2>Compartilhar Horta</h2>
+        <p>Exporte a horta (lotes, clima e previsão) para entregar aos alunos, ou importe uma horta preparada.</p>
+
+        {error && <p className="save-error" role="alert">{error}</p>}
+
+        <div className="snapshot-actions">
+          <button className="ok-button" onClick={() => downloadSnapshot(game)}>📄 Baixar arquivo .json</button>
+          <button className="ok-button" onClick={handleCreateLink}>🔗 Gerar link</button>
+          <label className="ok-button snapshot-import">
+            📂 Importar arquivo
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+
+        {link && (
+          <div className="snapshot-link">
+            <input className="save-name-input" value={link} readOnly onFocus={(e) => e.target.select()} aria-label="Link da horta" />
+            {isCopied && <span className="snapshot-copied">Link copiado!</span>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
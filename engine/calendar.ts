@@ -0,0 +1,70 @@
+import { isWilted } from './plants';
+import { getSpecies } from './species';
+import type { GameState, PlantState, PlantType, Season } from './types';
+
+// Each press of "advance weather" is one day. The garden sits in southern
+// Brazil: summer is around the December solstice and winter around June's.
+
+export const DAYS_PER_SEASON = 10;
+const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+const DAYS_PER_YEAR = DAYS_PER_SEASON * SEASONS.length;
+
+export const SEASON_NAMES: Record<Season, string> = {
+  spring: 'Primavera',
+  summer: 'Verão',
+  autumn: 'Outono',
+  winter: 'Inverno',
+};
+
+export const SEASON_EMOJIS: Record<Season, string> = {
+  spring: '🌸',
+  summer: '🌞',
+  autumn: '🍂',
+  winter: '⛄',
+};
+
+const IN_SEASON: Record<Season, string> = {
+  spring: 'na primavera',
+  summer: 'no verão',
+  autumn: 'no outono',
+  winter: 'no inverno',
+};
+
+// Hours of light at the equinoxes, and how far the solstices move away from them
+const EQUINOX_DAY_LENGTH = 12;
+const DAY_LENGTH_SWING = 1.5;
+
+export const seasonOf = (day: number): Season => SEASONS[Math.floor(day / DAYS_PER_SEASON) % SEASONS.length];
+
+export const formatDate = (day: number) =>
+  `Dia ${(day % DAYS_PER_SEASON) + 1} · ${SEASON_NAMES[seasonOf(day)]} · Ano ${Math.floor(day / DAYS_PER_YEAR) + 1}`;
+
+// Longest on the first day of summer, shortest on the first day of winter
+export const dayLength = (day: number) =>
+  EQUINOX_DAY_LENGTH + DAY_LENGTH_SWING * Math.cos((2 * Math.PI * (day - DAYS_PER_SEASON)) / DAYS_PER_YEAR);
+
+export const formatDayLength = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Whether a species' flowers open on this day
+export const isInBloom = (type: PlantType, day: number) => {
+  const { seasons, minDayLength } = getSpecies(type).flowering ?? {};
+  if (seasons && !seasons.includes(seasonOf(day))) return false;
+  return minDayLength === undefined || dayLength(day) >= minDayLength;
+};
+
+// Only healthy flowering plants in bloom can give or take pollen; a heatwave makes every flower drop
+export const isFlowering = (state: GameState, plant: PlantState | null | undefined): plant is PlantState =>
+  plant?.stage === 'flowering' && !isWilted(plant) && isInBloom(plant.type, state.day) && state.weather !== 'heatwave';
+
+// "Maçã só floresce na primavera", for tooltips and hints
+export const bloomWindowText = (type: PlantType) => {
+  const { seasons, minDayLength } = getSpecies(type).flowering ?? {};
+  const parts = [
+    ...(seasons ? [`só floresce ${seasons.map(season => IN_SEASON[season]).join(' e ')}`] : []),
+    ...(minDayLength !== undefined ? [`precisa de dias com ${formatDayLength(minDayLength)} de luz`] : []),
+  ];
+  return parts.length > 0 ? `${type} ${parts.join(' e ')}` : `${type} floresce o ano todo`;
+};
@@ -0,0 +1,63 @@
+import type { ClimateDefinition, ClimateId } from './types';
+
+export const DEFAULT_CLIMATE: ClimateId = 'mata_atlantica';
+
+export const CLIMATES: Record<ClimateId, ClimateDefinition> = {
+  semiarido: {
+    name: 'Semiárido',
+    emoji: '🌵',
+    description: 'Sol quase o ano todo, secas longas e ondas de calor. As poucas chuvas chegam no fim do verão e no outono.',
+    seasons: {
+      spring: { sunny: 3, sunny_windy: 2, drought: 3, heatwave: 2 },
+      summer: { sunny: 3, raining: 2, storm: 1, drought: 2, heatwave: 2 },
+      autumn: { sunny: 2, raining: 3, raining_windy: 1, sunny_windy: 1, drought: 1 },
+      winter: { sunny: 3, sunny_windy: 2, raining: 1, drought: 2 },
+    },
+    transitions: {
+      drought: { drought: 4, heatwave: 2, raining: 0.5 },
+      heatwave: { heatwave: 2, drought: 2 },
+      raining: { raining: 2, raining_windy: 1.5 },
+    },
+    prevailingWind: 'NW',
+  },
+  mata_atlantica: {
+    name: 'Mata Atlântica',
+    emoji: '🌳',
+    description: 'Úmida e chuvosa o ano todo, com temporais no verão e geadas nas noites frias de inverno.',
+    seasons: {
+      spring: { sunny: 3, raining: 2, sunny_windy: 2, raining_windy: 1, storm: 1 },
+      summer: { sunny: 2, raining: 3, raining_windy: 1, storm: 2, heatwave: 1 },
+      autumn: { sunny: 3, raining: 2, sunny_windy: 1, raining_windy: 1 },
+      winter: { sunny: 3, raining: 1, sunny_windy: 1, frost: 2 },
+    },
+    transitions: {
+      raining: { raining: 2, storm: 1.5 },
+      storm: { raining: 2, storm: 0.5 },
+      sunny: { sunny: 1.5 },
+      frost: { frost: 2, raining: 0.5 },
+    },
+    prevailingWind: 'W',
+  },
+  cerrado: {
+    name: 'Cerrado',
+    emoji: '🌾',
+    description: 'Duas estações bem marcadas: verão de chuvas fortes e inverno seco, com queimadas, ventania e geadas raras.',
+    seasons: {
+      spring: { sunny: 3, sunny_windy: 1, raining: 1, heatwave: 2, drought: 1 },
+      summer: { sunny: 1, raining: 4, raining_windy: 1, storm: 2 },
+      autumn: { sunny: 3, raining: 1, sunny_windy: 2, drought: 1 },
+      winter: { sunny: 3, sunny_windy: 2, drought: 3, frost: 1 },
+    },
+    transitions: {
+      raining: { raining: 3, storm: 1.5 },
+      storm: { raining: 2 },
+      drought: { drought: 3, heatwave: 1.5, raining: 0.3 },
+    },
+    prevailingWind: 'SW',
+  },
+};
+
+export const CLIMATE_IDS = Object.keys(CLIMATES) as ClimateId[];
+
+export const isClimateId = (value: unknown): value is ClimateId =>
+  typeof value === 'string' && (CLIMATE_IDS as string[]).includes(value);
@@ -0,0 +1,93 @@
+import { neighborIds } from './garden';
+import { notify } from './notifications';
+import { enrichSoil } from './soil';
+import { COMPANION_EFFECTS, getSpecies } from './species';
+import type { Clock, CompanionEffect, CompanionLink, GameState, SoilState } from './types';
+
+// Companion planting: some species help or hinder the plants right next to
+// them, as declared under `companions` in species.json.
+
+export const COMPANION_EMOJIS: Record<CompanionEffect, string> = { climbs: '🧗', shades: '☂️', inhibits: '⚔️' };
+
+export const COMPANION_DESCRIPTIONS: Record<CompanionEffect, string> = {
+  climbs: 'sobe no vizinho e divide com ele o nitrogênio que fixa',
+  shades: 'cobre o solo do vizinho com as folhas e segura a umidade',
+  inhibits: 'compete com o vizinho, que dá uma colheita menor',
+};
+
+// Part of a legume's fixed nitrogen that reaches each plant it climbs
+export const NITROGEN_SHARE: Partial<SoilState> = { nitrogen: 10 };
+// Share of the daily drying a covered plot still loses
+export const SHADED_DRYING = 0.5;
+
+// Every effect between neighbouring plants right now, seedlings included
+export const companionLinks = (state: GameState): CompanionLink[] =>
+  state.garden.flatMap(plot => {
+    const companions = plot.plant && getSpecies(plot.plant.type).companions;
+    if (!companions) return [];
+    return neighborIds(state.gardenSize, plot.id).flatMap(to => {
+      const neighbor = state.garden[to].plant;
+      if (!neighbor) return [];
+      return COMPANION_EFFECTS.filter(effect => companions[effect]?.includes(neighbor.type)).map(effect => ({ from: plot.id, to, effect }));
+    });
+  });
+
+const linksFrom = (state: GameState, plotId: number, effect: CompanionEffect) =>
+  companionLinks(state).filter(link => link.from === plotId && link.effect === effect);
+
+// Ground-covering plants keep their own plot moist as well as their neighbours'
+export const shadedPlotIds = (state: GameState) => [
+  ...new Set(companionLinks(state).filter(link => link.effect === 'shades').flatMap(link => [link.from, link.to])),
+];
+
+// Harvest sizes gained from a support to climb towards the light, and lost to a competitor
+export const companionHarvestShift = (state: GameState, plotId: number) => {
+  const links = companionLinks(state);
+  const climbs = links.some(link => link.from === plotId && link.effect === 'climbs') ? 1 : 0;
+  const inhibited = links.some(link => link.to === plotId && link.effect === 'inhibits') ? 1 : 0;
+  return climbs - inhibited;
+};
+
+// The plots of the plants a climber holds on to
+export const supportsOf = (state: GameState, plotId: number) => linksFrom(state, plotId, 'climbs').map(link => link.to);
+
+// A climbing legume feeds the plants holding it up
+export const shareFixedNitrogen = (state: GameState, plotId: number): GameState => {
+  const supports = supportsOf(state, plotId);
+  return supports.length > 0 ? enrichSoil(state, supports, NITROGEN_SHARE) : state;
+};
+
+// --- NOTICES ---
+
+// A plant held up by one neighbour and kept moist by another is a full guild, like
+// the Three Sisters: the plots of the climber, its support and the ground cover
+const guildAround = (links: CompanionLink[], plotId: number): [number, number, number] | null => {
+  for (const climb of links) {
+    if (climb.effect !== 'climbs') continue;
+    const shade = links.find(link => link.effect === 'shades' && link.to === climb.to);
+    if (shade && [climb.from, climb.to, shade.from].includes(plotId)) return [climb.from, climb.to, shade.from];
+  }
+  return null;
+};
+
+// Planting next to companions explains what the neighbours will do to each other
+export const announceCompanions = (state: GameState, clock: Clock, plotId: number): GameState => {
+  const links = companionLinks(state);
+  const guild = guildAround(links, plotId);
+  if (guild) {
+    const [climber, support, cover] = guild.map(id => state.garden[id].plant!.type);
+    return notify(state, clock, ...(getSpecies(climber).messages.guild ?? [
+      "Plantas Companheiras 🌿",
+      `${climber} sobe em ${support}, e ${cover} cobre o solo das duas e segura a umidade. Plantas que se ajudam assim rendem mais juntas do que separadas.`,
+    ]));
+  }
+  const rivals = links.filter(link => link.effect === 'inhibits' && (link.from === plotId || link.to === plotId));
+  if (rivals.length === 0) return state;
+  const pairs = [...new Set(rivals.map(link => `${state.garden[link.from].plant!.type} e ${state.garden[link.to].plant!.type}`))];
+  return notify(
+    state,
+    clock,
+    "Vizinhos que Competem ⚔️",
+    `${pairs.join('; ')} não combinam lado a lado. Uma planta pode disputar luz, água e nutrientes com a vizinha, ou soltar pelas raízes substâncias que atrapalham o crescimento dela (alelopatia). A planta prejudicada dará uma colheita menor: plante-as longe uma da outra.`,
+  );
+};
@@ -0,0 +1,77 @@
+import { INVENTORY_CATEGORIES } from './market';
+import { notify } from './notifications';
+import { enrichSoil, ORGANIC_FERTILIZER } from './soil';
+import type { Clock, CompostBatch, CompostState, GameState, PlantSize, PlantType } from './types';
+
+// Days a batch needs in the bin before it is finished compost
+export const COMPOST_DAYS = 5;
+// Parts of plant matter in one dose of fertilizer; the bin shrinks what goes in
+const MATERIAL_PER_DOSE = 2;
+// A pulled or dead plant, and harvested produce by size
+const PLANT_MATERIAL = 1;
+const PRODUCE_MATERIAL: Record<PlantSize, number> = { small: 1, normal: 2, large: 3 };
+// A new garden starts with a little finished compost
+const STARTER_FERTILIZER = 3;
+
+export const createCompost = (): CompostState => ({ batches: [], fertilizer: STARTER_FERTILIZER });
+
+export const daysToMature = (state: GameState, batch: CompostBatch) => Math.max(0, batch.startedOn + COMPOST_DAYS - state.day);
+
+const formatDoses = (doses: number) => (Number.isInteger(doses) ? String(doses) : doses.toFixed(1).replace('.', ','));
+
+// Everything added on the same day rots together
+const addToCompost = (state: GameState, material: number): GameState => {
+  const { batches } = state.compost;
+  const today = batches.find(batch => batch.startedOn === state.day);
+  return {
+    ...state,
+    compost: {
+      ...state.compost,
+      batches: today
+        ? batches.map(batch => (batch === today ? { ...batch, material: batch.material + material } : batch))
+        : [...batches, { startedOn: state.day, material }],
+    },
+  };
+};
+
+export const compostPlant = (state: GameState): GameState => addToCompost(state, PLANT_MATERIAL);
+
+// One harvested item of this size leaves the inventory for the bin
+export const compostProduce = (state: GameState, type: PlantType, size: PlantSize): GameState => {
+  const counts = state.inventory[type]?.[size];
+  const category = INVENTORY_CATEGORIES.find(c => (counts?.[c] ?? 0) > 0);
+  if (!counts || !category) return state;
+  const inventory = { ...state.inventory, [type]: { ...state.inventory[type], [size]: { ...counts, [category]: counts[category] - 1 } } };
+  return addToCompost({ ...state, inventory }, PRODUCE_MATERIAL[size]);
+};
+
+// At dawn the batches that rotted long enough become fertilizer
+export const matureCompost = (state: GameState, clock: Clock): GameState => {
+  const ready = state.compost.batches.filter(batch => daysToMature(state, batch) === 0);
+  if (ready.length === 0) return state;
+  const doses = ready.reduce((sum, batch) => sum + batch.material, 0) / MATERIAL_PER_DOSE;
+  const next = {
+    ...state,
+    compost: { batches: state.compost.batches.filter(batch => !ready.includes(batch)), fertilizer: state.compost.fertilizer + doses },
+  };
+  return notify(
+    next,
+    clock,
+    "Composto Pronto 🪱",
+    `A composteira rendeu ${formatDoses(doses)} ${doses === 1 ? 'dose' : 'doses'} de adubo orgânico. Minhocas, fungos e bactérias transformaram os restos das plantas em húmus, que devolve à terra os nutrientes que as colheitas levaram.`,
+  );
+};
+
+// The organic fertilizer tool spends one dose of finished compost
+export const spreadCompost = (state: GameState, clock: Clock, plotId: number): GameState => {
+  if (state.compost.fertilizer < 1) {
+    return notify(
+      state,
+      clock,
+      "Sem Composto 🪱",
+      `A composteira ainda não tem adubo pronto. Coloque nela as plantas arrancadas, os restos das mortas e colheitas do inventário (♻️), e em ${COMPOST_DAYS} dias eles viram adubo.`,
+    );
+  }
+  const next = { ...state, compost: { ...state.compost, fertilizer: state.compost.fertilizer - 1 } };
+  return enrichSoil(next, [plotId], ORGANIC_FERTILIZER);
+};
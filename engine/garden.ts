@@ -0,0 +1,91 @@
+import { registerPlant } from './pedigree';
+import { createSoil } from './soil';
+import type { GameState, GardenSize, PlantState, PlantType, PlotState } from './types';
+
+export const MIN_GARDEN_SIZE = 3;
+export const MAX_GARDEN_SIZE = 10;
+export const DEFAULT_GARDEN_SIZE: GardenSize = { width: 4, height: 4 };
+
+export const createPlot = (id: number, isDisabled: boolean = false): PlotState => ({
+  id,
+  plant: null,
+  isDisabled,
+  moisture: 30,
+  soil: createSoil(),
+  cropHistory: [],
+  pesticide: 0,
+});
+
+export const createGarden = ({ width, height }: GardenSize = DEFAULT_GARDEN_SIZE, disabledPlotIds: number[] = []): PlotState[] =>
+  Array.from({ length: width * height }, (_, i) => createPlot(i, disabledPlotIds.includes(i)));
+
+export const isValidGardenSize = ({ width, height }: GardenSize) =>
+  [width, height].every(side => Number.isInteger(side) && side >= MIN_GARDEN_SIZE && side <= MAX_GARDEN_SIZE);
+
+export const plotPosition = ({ width }: GardenSize, plotId: number) => ({
+  row: Math.floor(plotId / width),
+  col: plotId % width,
+});
+
+// Number of moves a king would need on the grid
+export const plotDistance = (size: GardenSize, a: number, b: number) => {
+  const from = plotPosition(size, a);
+  const to = plotPosition(size, b);
+  return Math.max(Math.abs(from.row - to.row), Math.abs(from.col - to.col));
+};
+
+export const centerPlotId = (size: GardenSize) =>
+  Math.floor(size.height / 2) * size.width + Math.floor(size.width / 2);
+
+// Something can be planted here
+export const isFreePlot = (plot: PlotState) => !plot.plant && !plot.debris && !plot.isDisabled;
+
+// A plant that dies stays on its plot as debris until it is composted
+export const leaveDebris = (plot: PlotState): PlotState => (plot.plant ? { ...plot, plant: null, debris: plot.plant.type } : plot);
+
+export const neighborIds = (size: GardenSize, centerId: number): number[] => {
+  const { row, col } = plotPosition(size, centerId);
+  const ids: number[] = [];
+
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      if (dr === 0 && dc === 0) continue;
+      const newRow = row + dr;
+      const newCol = col + dc;
+      if (newRow >= 0 && newRow < size.height && newCol >= 0 && newCol < size.width) {
+        ids.push(newRow * size.width + newCol);
+      }
+    }
+  }
+  return ids;
+};
+
+export const findEmptySpot = ({ gardenSize, garden }: GameState, centerId: number): number | null => {
+  // 1. Try neighbors first
+  const emptyNeighbor = neighborIds(gardenSize, centerId).find(id => isFreePlot(garden[id]));
+  if (emptyNeighbor !== undefined) return emptyNeighbor;
+
+  // 2. If no neighbors, find any empty spot
+  const anyEmpty = garden.find(isFreePlot);
+  return anyEmpty ? anyEmpty.id : null;
+};
+
+export const findNeighbor = ({ gardenSize, garden }: GameState, centerId: number, type: PlantType): number | null => {
+  const neighbor = neighborIds(gardenSize, centerId).find(id => garden[id].plant?.stage === 'flowering' && garden[id].plant?.type === type);
+  return neighbor ?? null;
+};
+
+export const isPlantStillThere = (state: GameState, plotId: number, instanceId: string) =>
+  state.garden[plotId]?.plant?.instanceId === instanceId;
+
+export const updatePlot = (state: GameState, plotId: number, update: (plot: PlotState) => PlotState): GameState => ({
+  ...state,
+  garden: state.garden.map(p => (p.id === plotId ? update(p) : p)),
+});
+
+export const updatePlant = (state: GameState, plotId: number, update: (plant: PlantState) => PlantState): GameState =>
+  updatePlot(state, plotId, plot => (plot.plant ? { ...plot, plant: update(plot.plant) } : plot));
+
+// Plants a new sprout only if the spot is still free
+export const placePlant = (state: GameState, plotId: number, plant: PlantState): GameState =>
+  !state.garden[plotId] || !isFreePlot(state.garden[plotId]) ? state : registerPlant(updatePlot(state, plotId, plot => ({ ...plot, plant })), plant);
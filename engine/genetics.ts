@@ -0,0 +1,68 @@
+import { getSpecies } from './species';
+import type { AllelePair, Clock, ColorAllele, Genotype, PlantState, PlantType, PlantVigor, VigorAllele } from './types';
+
+export const VIGOR_LOCI = 6;
+// Heterozygous at this many vigor loci (with no recessive pair) shows hybrid vigor
+const HYBRID_HETEROZYGOSITY = 3;
+
+// Chance that a commercial seed carries the recessive fruit colour allele
+const RECESSIVE_COLOR_FREQUENCY = 0.3;
+
+const pick = <T,>(items: T[], clock: Clock): T => items[Math.floor(clock.random() * items.length)];
+
+const isHomozygousRecessive = ([a, b]: AllelePair<string>) => a === a.toLowerCase() && b === b.toLowerCase();
+const isHeterozygous = ([a, b]: AllelePair<string>) => a !== b;
+
+// Commercial seeds carry the species' hidden recessive load. Autogamous crops
+// such as beans have long purged theirs, so selfing them costs nothing.
+export const commercialGenotype = (clock: Clock, type: PlantType): Genotype => {
+  const load = Math.min(getSpecies(type).genetics.recessiveLoad, VIGOR_LOCI);
+  const carriers = new Set<number>();
+  while (carriers.size < load) carriers.add(Math.floor(clock.random() * VIGOR_LOCI));
+
+  const colorAllele = (): ColorAllele => (clock.random() < RECESSIVE_COLOR_FREQUENCY ? 'c' : 'C');
+  return {
+    vigor: Array.from({ length: VIGOR_LOCI }, (_, locus): AllelePair<VigorAllele> => (carriers.has(locus) ? ['V', 'v'] : ['V', 'V'])),
+    color: [colorAllele(), colorAllele()],
+  };
+};
+
+// Meiosis: one allele of each pair, independently (the loci are unlinked)
+const gamete = (clock: Clock, { vigor, color }: Genotype) => ({
+  vigor: vigor.map(pair => pick(pair, clock)),
+  color: pick(color, clock),
+});
+
+export const crossGenotypes = (clock: Clock, mother: Genotype, father: Genotype): Genotype => {
+  const egg = gamete(clock, mother);
+  const pollen = gamete(clock, father);
+  return {
+    vigor: egg.vigor.map((allele, locus): AllelePair<VigorAllele> => [allele, pollen.vigor[locus]]),
+    color: [egg.color, pollen.color],
+  };
+};
+
+// --- PHENOTYPE ---
+
+// 1-based numbers of the vigor loci carrying 'vv'
+export const recessiveVigorLoci = ({ vigor }: Genotype) =>
+  vigor.flatMap((pair, locus) => (isHomozygousRecessive(pair) ? [locus + 1] : []));
+
+// Any homozygous recessive locus shows up as inbreeding depression; heterozygosity
+// at many loci masks every recessive and the plant grows with hybrid vigor.
+export const expressVigor = (genotype: Genotype): PlantVigor => {
+  if (recessiveVigorLoci(genotype).length > 0) return 'small';
+  return genotype.vigor.filter(isHeterozygous).length >= HYBRID_HETEROZYGOSITY ? 'hybrid' : 'normal';
+};
+
+export const hasRecessiveColor = ({ color }: Genotype) => isHomozygousRecessive(color);
+
+// Work for garden plants and pedigree entries alike
+type Genotyped = Pick<PlantState, 'type' | 'genotype'>;
+
+export const plantVigor = (plant: Genotyped) => expressVigor(plant.genotype);
+
+export const fruitColor = (plant: Genotyped) => getSpecies(plant.type).genetics.fruitColors[hasRecessiveColor(plant.genotype) ? 1 : 0];
+
+export const formatGenotype = ({ vigor, color }: Genotype) =>
+  [...vigor, color].map(pair => [...pair].sort().join('')).join(' ');
@@ -0,0 +1,138 @@
+import { shareFixedNitrogen, supportsOf } from './companions';
+import { isInBloom } from './calendar';
+import { isPlantStillThere, leaveDebris, updatePlant, updatePlot } from './garden';
+import { notify } from './notifications';
+import { markDied } from './pedigree';
+import { makeId } from './plants';
+import { checkWindPollination, scheduleSelfFertilization } from './pollination';
+import { DELAYS, hasTimer, schedule } from './scheduler';
+import { enrichSoil, NITROGEN_FIXATION } from './soil';
+import { getSpecies } from './species';
+import type { Clock, GameState, PlantState, PlantStage } from './types';
+import { isWindy } from './weather';
+
+export type Ripeness = 'unripe' | 'ripe' | 'overripe';
+
+export const RIPENESS_NAMES: Record<Ripeness, string> = { unripe: 'verdes', ripe: 'maduros', overripe: 'passando do ponto' };
+
+// Share of the fruiting stage before the fruit is ripe, and after which it starts to spoil
+const RIPE_FROM = 0.4;
+const RIPE_UNTIL = 0.8;
+
+type TimedStage = Exclude<PlantStage, 'seedling'>;
+
+const stageDuration = (plant: PlantState) => getSpecies(plant.type).lifeCycle[plant.stage as TimedStage];
+
+const scheduleNextStage = (state: GameState, plotId: number, plant: PlantState, delay = stageDuration(plant)): GameState =>
+  schedule(state, delay, { kind: 'nextStage', plotId, instanceId: plant.instanceId });
+
+// Every stage change restarts the stage clock and arms the next one
+const enterStage = (state: GameState, plotId: number, stage: TimedStage): GameState => {
+  const next = updatePlant(state, plotId, p => ({ ...p, stage, stageStartedAt: state.scheduler.tick }));
+  return scheduleNextStage(next, plotId, next.garden[plotId].plant!);
+};
+
+// How far along the fruit is, judged by the time spent fruiting
+export const fruitRipeness = (state: GameState, plant: PlantState): Ripeness => {
+  const elapsed = state.scheduler.tick - (plant.stageStartedAt ?? state.scheduler.tick);
+  const progress = elapsed / getSpecies(plant.type).lifeCycle.fruiting;
+  if (progress < RIPE_FROM) return 'unripe';
+  return progress < RIPE_UNTIL ? 'ripe' : 'overripe';
+};
+
+// Waters-triggered growth of a seedling; repeated calls for the same plot are ignored
+export const scheduleGrowth = (state: GameState, plotId: number): GameState => {
+  const plant = state.garden[plotId]?.plant;
+  if (!plant || hasTimer(state, event => event.kind === 'grow' && event.plotId === plotId)) return state;
+  return schedule(state, getSpecies(plant.type).growthTime, { kind: 'grow', plotId });
+};
+
+export const handleGrow = (state: GameState, clock: Clock, plotId: number): GameState => {
+  const plant = state.garden[plotId]?.plant;
+  if (plant?.stage !== 'seedling') return state;
+
+  const species = getSpecies(plant.type);
+  let next = enterStage(state, plotId, 'vegetative');
+
+  if (species.fixesNitrogen) {
+    // Rhizobium travels to the roots of legumes
+    const bacteriumId = makeId(clock);
+    next = {
+      ...next,
+      bacteria: [...next.bacteria, { id: bacteriumId, plotId }],
+      animatingPlots: [...next.animatingPlots, plotId],
+    };
+    next = schedule(next, DELAYS.bacterium, { kind: 'nitrogenFixation', plotId, instanceId: plant.instanceId, bacteriumId });
+  }
+  return next;
+};
+
+// --- LIFE CYCLE ---
+
+// Out of season the plant keeps growing leaves and tries again later
+const startFlowering = (state: GameState, clock: Clock, plotId: number, plant: PlantState): GameState => {
+  if (!isInBloom(plant.type, state.day)) return scheduleNextStage(state, plotId, plant, DELAYS.bloomCheck);
+  let next = enterStage(state, plotId, 'flowering');
+  // Immediate check for wind pollination when it flowers during windy weather
+  if (getSpecies(plant.type).pollination.syndrome === 'wind' && isWindy(next.weather)) {
+    next = checkWindPollination(next, clock);
+  }
+  return scheduleSelfFertilization(next, plotId, plant);
+};
+
+// The plant dries out where it stood; what is left can go back to the soil
+const die = (state: GameState, clock: Clock, plotId: number, plant: PlantState): GameState => {
+  const next = markDied(updatePlot(state, plotId, leaveDebris), plant.instanceId);
+  return notify(
+    next,
+    clock,
+    `Fim do Ciclo (${plant.type}) 🍂`,
+    'A planta envelheceu e morreu sem ser colhida. Os restos ficaram no lote: use a cesta para levá-los à composteira antes de plantar de novo.',
+  );
+};
+
+export const handleNextStage = (state: GameState, clock: Clock, plotId: number, instanceId: string): GameState => {
+  if (!isPlantStillThere(state, plotId, instanceId)) return state;
+  const plant = state.garden[plotId].plant!;
+  switch (plant.stage) {
+    case 'seedling': return state;
+    case 'vegetative': return startFlowering(state, clock, plotId, plant);
+    case 'flowering': return enterStage(state, plotId, 'fruiting');
+    case 'fruiting': return enterStage(state, plotId, 'senescent');
+    case 'senescent': return die(state, clock, plotId, plant);
+  }
+};
+
+// Every rooted plant waits on its next stage; restored games get their timers back here
+export const reconcileLifeCycles = (state: GameState): GameState =>
+  state.garden.reduce((next, { id, plant }) => {
+    if (!plant || plant.stage === 'seedling') return next;
+    if (hasTimer(next, event => event.kind === 'nextStage' && event.instanceId === plant.instanceId)) return next;
+    const { tick } = next.scheduler;
+    const startedAt = plant.stageStartedAt ?? tick;
+    const withStart = plant.stageStartedAt === undefined ? updatePlant(next, id, p => ({ ...p, stageStartedAt: tick })) : next;
+    return scheduleNextStage(withStart, id, plant, Math.max(1, startedAt + stageDuration(plant) - tick));
+  }, state);
+
+// --- NITROGEN FIXATION ---
+
+export const handleNitrogenFixation = (state: GameState, clock: Clock, plotId: number, instanceId: string, bacteriumId: string): GameState => {
+  let next: GameState = {
+    ...state,
+    bacteria: state.bacteria.filter(b => b.id !== bacteriumId),
+    animatingPlots: state.animatingPlots.filter(id => id !== plotId),
+  };
+  if (!isPlantStillThere(next, plotId, instanceId)) return next;
+
+  // The nodules feed the plot, whatever is planted there next, and the plants it climbs
+  next = enrichSoil(updatePlant(next, plotId, p => ({ ...p, isBoosted: true })), [plotId], NITROGEN_FIXATION);
+  const supports = [...new Set(supportsOf(next, plotId).map(id => next.garden[id].plant!.type))];
+  const shared = shareFixedNitrogen(next, plotId);
+  return notify(
+    shared,
+    clock,
+    "Fixação de Nitrogênio 🦠",
+    `As raízes de ${next.garden[plotId].plant!.type} soltam substâncias químicas no solo que atraem bactérias do gênero Rhizobium. A bactéria possui uma enzima chamada nitrogenase, que faz a mágica: Transforma N₂ do ar → em NH₃ (amônia). Esse nitrogênio fica no solo para a próxima cultura.` +
+      (supports.length > 0 ? ` Uma parte já alimenta a planta vizinha em que ela sobe (${supports.join(', ')}).` : '')
+  );
+};
@@ -0,0 +1,165 @@
+import { companionHarvestShift } from './companions';
+import { compostPlant } from './compost';
+import { createPlot, placePlant, updatePlot } from './garden';
+import { plantVigor } from './genetics';
+import { fruitRipeness } from './growth';
+import { notify } from './notifications';
+import { markHarvested } from './pedigree';
+import { hasHeavyResidue } from './pesticide';
+import { pestDamage } from './pests';
+import { clonePlant } from './plants';
+import { cancelTimers, DELAYS, schedule } from './scheduler';
+import { saveSeeds } from './seeds';
+import { depleteSoil, enrichSoil, GREEN_MANURE, isOrganicSoil, limitingNutrient, NUTRIENT_NAMES, repeatedHarvests, soilHarvestSize } from './soil';
+import { getSpecies } from './species';
+import type { Clock, GameState, InventoryCounts, PlantSize, PlantState, PlotState } from './types';
+import { growIfMoist } from './water';
+
+const PLANT_SIZES: PlantSize[] = ['small', 'normal', 'large'];
+
+const shiftSize = (size: PlantSize, steps: number) =>
+  PLANT_SIZES[Math.min(Math.max(PLANT_SIZES.indexOf(size) + steps, 0), PLANT_SIZES.length - 1)];
+
+// The soil sets the size; hybrid vigor adds one and inbreeding takes one away
+const baseHarvestSize = (plot: PlotState): PlantSize => {
+  const vigor = plantVigor(plot.plant!);
+  return shiftSize(soilHarvestSize(plot), vigor === 'hybrid' ? 1 : vigor === 'small' ? -1 : 0);
+};
+
+// Bee visits set more fruit on species that reward them: one size up. Pests take sizes away,
+// neighbours can give or take one, and fruit picked green or past its best loses one.
+export const harvestSize = (state: GameState, plot: PlotState): PlantSize => {
+  const plant = plot.plant!;
+  const beeBonus = plant.isBeeVisited && getSpecies(plant.type).beeYieldBonus ? 1 : 0;
+  const timing = fruitRipeness(state, plant) === 'ripe' ? 0 : -1;
+  return shiftSize(baseHarvestSize(plot), beeBonus - pestDamage(plant) + companionHarvestShift(state, plot.id) + timing);
+};
+
+const addToInventory = (state: GameState, plot: PlotState, size: PlantSize): GameState => {
+  const type = plot.plant!.type;
+  const currentTypeInventory = state.inventory[type] || ({} as Record<PlantSize, InventoryCounts>);
+  const updatedCounts: InventoryCounts = { ...(currentTypeInventory[size] || { plain: 0, organic: 0, pesticide: 0 }) };
+
+  // Determine fertilizer category for the harvested plant
+  if (hasHeavyResidue(plot)) {
+    updatedCounts.pesticide += 1;
+  } else if (isOrganicSoil(plot)) {
+    updatedCounts.organic += 1;
+  } else {
+    updatedCounts.plain += 1;
+  }
+
+  return {
+    ...state,
+    inventory: {
+      ...state.inventory,
+      [type]: { ...currentTypeInventory, [size]: updatedCounts },
+    },
+  };
+};
+
+// A harvest the soil kept small says why, so rotation has something to teach
+const explainPoorSoil = (state: GameState, clock: Clock, plot: PlotState): GameState => {
+  if (soilHarvestSize(plot) !== 'small') return state;
+  const type = plot.plant!.type;
+  const repeats = repeatedHarvests(plot, type);
+  if (repeats > 0) {
+    return notify(
+      state,
+      clock,
+      `Solo Cansado (${type}) 🔁`,
+      `A colheita saiu pequena: é a ${repeats + 1}ª colheita seguida de ${type} neste lote. A mesma cultura tira sempre os mesmos nutrientes e deixa no solo as suas pragas e doenças. Faça rotação: depois de uma cultura exigente, plante feijão, que devolve nitrogênio à terra.`,
+    );
+  }
+  return notify(
+    state,
+    clock,
+    `Solo Pobre (${type}) 🪨`,
+    `A colheita saiu pequena: faltou ${NUTRIENT_NAMES[limitingNutrient(plot, type)]} no solo. Adube a terra ou plante antes uma cultura que exija outros nutrientes.`,
+  );
+};
+
+// Removing a plant cancels everything it still had scheduled
+const cancelPlantTimers = (state: GameState, plotId: number, instanceId: string): GameState => {
+  const next = cancelTimers(state, event =>
+    (event.kind === 'grow' && event.plotId === plotId) ||
+    ('instanceId' in event && event.instanceId === instanceId)
+  );
+  return {
+    ...next,
+    bacteria: next.bacteria.filter(b => b.plotId !== plotId),
+    animatingPlots: next.animatingPlots.filter(id => id !== plotId),
+  };
+};
+
+// The basket takes what a dead plant left behind to the compost bin
+const compostDebris = (state: GameState, plotId: number): GameState =>
+  compostPlant(updatePlot(state, plotId, ({ debris, ...plot }) => plot));
+
+export const harvestPlot = (state: GameState, clock: Clock, plotId: number): GameState => {
+  const plot = state.garden[plotId];
+  const harvestedPlant = plot?.plant;
+  if (!harvestedPlant) return plot?.debris ? compostDebris(state, plotId) : state;
+
+  // Plants without fruit are just pulled out; only fruiting ones go to the inventory, leave seeds and take from the soil
+  const hasFruit = harvestedPlant.stage === 'fruiting';
+  // Anything past a seedling is worth composting when it comes out without fruit
+  let next = !hasFruit && harvestedPlant.stage !== 'seedling' ? compostPlant(state) : state;
+  if (hasFruit) {
+    const size = harvestSize(state, plot);
+    next = explainPoorSoil(saveSeeds(addToInventory(state, plot, size), clock, harvestedPlant, size), clock, plot);
+  }
+  // The soil keeps its water, nutrients and residue; everything else starts over
+  next = updatePlot(next, plotId, p => {
+    const { moisture, soil, cropHistory, pesticide } = hasFruit ? depleteSoil(p, harvestedPlant.type) : p;
+    return { ...createPlot(plotId), moisture, soil, cropHistory, pesticide };
+  });
+  next = cancelPlantTimers(next, plotId, harvestedPlant.instanceId);
+  next = markHarvested(next, harvestedPlant.instanceId);
+
+  if (getSpecies(harvestedPlant.type).propagatesByCuttings && hasFruit) {
+    next = replantCutting(next, clock, plotId, harvestedPlant);
+  }
+
+  if (getSpecies(harvestedPlant.type).fixesNitrogen && hasFruit) {
+    const otherPlantPlotIds = next.garden.filter(p => p.plant).map(p => p.id);
+    next = notify(
+      next,
+      clock,
+      `Dica de Colheita (${harvestedPlant.type}) 🌱`,
+      "Corte a planta na superfície, deixando as raízes no solo. Os nódulos das bactérias ficam e liberam nitrogênio no solo.",
+      { type: 'showGreenManure', plotIds: otherPlantPlotIds }
+    );
+  }
+  return next;
+};
+
+// A piece of the stem goes back into the same hole and sprouts as a clone
+const replantCutting = (state: GameState, clock: Clock, plotId: number, mother: PlantState): GameState => {
+  const clone = clonePlant(clock, mother);
+  const next = growIfMoist(placePlant(state, plotId, clone), plotId);
+  return notify(next, clock, ...(getSpecies(mother.type).messages.cloning ?? [
+    `Estaca Replantada (${mother.type}) 🌿`,
+    "Um pedaço do caule foi replantado no mesmo lote. A muda é um clone, com o mesmo genótipo da mãe.",
+  ]));
+};
+
+export const showGreenManure = (state: GameState, clock: Clock, plotIds: number[]): GameState =>
+  notify(
+    state,
+    clock,
+    "Adubação Verde! 🌱✨",
+    "As raízes deixadas no solo liberaram nitrogênio, fertilizando todas as outras plantas na sua horta!",
+    { type: 'applyGreenManure', plotIds }
+  );
+
+export const applyGreenManure = (state: GameState, clock: Clock, plotIds: number[]): GameState => {
+  if (plotIds.length === 0) {
+    return notify(state, clock, "Sem Plantas para Adubar", "Não há outras plantas na horta para se beneficiar da adubação verde.");
+  }
+  // The fertilizing animation plays before the effect is applied
+  return schedule({ ...state, fertilizingPlots: plotIds }, DELAYS.greenManure, { kind: 'greenManureApplied', plotIds });
+};
+
+export const handleGreenManureApplied = (state: GameState, plotIds: number[]): GameState =>
+  enrichSoil({ ...state, fertilizingPlots: [] }, plotIds, GREEN_MANURE);
@@ -0,0 +1,47 @@
+import type { HiveState } from './types';
+
+// Workers in a strong colony; the garden shows a few of them flying
+export const MAX_POPULATION = 20000;
+// A new nucleus colony, bought or caught
+const STARTER_POPULATION = 10000;
+// Below this the colony dies out
+const COLLAPSE_POPULATION = 500;
+const HIVE_BEES = 3;
+// Days kept for the health chart: a whole year
+const HISTORY_DAYS = 40;
+
+// Below this health the queen lays less than the colony loses
+export const SICK_HEALTH = 50;
+// Health lost per day for each point of residue on the flowers the bees work
+const EXPOSURE_HARM = 1.5;
+// Health regained per day with plenty of clean flowers nearby
+const RECOVERY = 10;
+// Daily growth with plenty of flowers, and loss with none at all
+const GROWTH = 0.15;
+const STARVATION = 0.05;
+
+export const createHive = (): HiveState => ({ population: STARTER_POPULATION, health: 100, history: [] });
+
+// The empty box a new garden starts with
+export const emptyHive = (): HiveState => ({ ...createHive(), population: 0 });
+
+export const isColonyAlive = (hive: HiveState) => hive.population > 0;
+
+// Share of trips that bring food back: poisoned bees lose their way home
+export const foragingEfficiency = (hive: HiveState) => hive.health / 100;
+
+export const hiveBeeCount = (hive: HiveState) =>
+  isColonyAlive(hive) ? Math.max(1, Math.round((HIVE_BEES * hive.population) / MAX_POPULATION)) : 0;
+
+const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+
+// One day in the colony. Exposure (0–100) wears its health down before any bee
+// is missing; the population only shrinks once health is low, and grows back
+// with forage (0–1, how much of the food it needs the flowers nearby give).
+export const liveHiveDay = (hive: HiveState, day: number, exposure: number, forage: number): HiveState => {
+  const health = clamp(hive.health + RECOVERY * forage - EXPOSURE_HARM * exposure, 100);
+  const change = health < SICK_HEALTH ? -(SICK_HEALTH - health) / 100 : forage > 0 ? GROWTH * forage : -STARVATION;
+  const grown = Math.round(clamp(hive.population * (1 + change), MAX_POPULATION));
+  const population = grown < COLLAPSE_POPULATION ? 0 : grown;
+  return { population, health, history: [...hive.history, { day, population, health }].slice(-HISTORY_DAYS) };
+};
@@ -0,0 +1,25 @@
+export * from './types';
+export { createInitialState, createStateFromLayout, step } from './step';
+export { SPECIES_LIST, getSpecies, isPlantType, syndromeOf } from './species';
+export { DEFAULT_GARDEN_SIZE, MAX_GARDEN_SIZE, MIN_GARDEN_SIZE, isValidGardenSize, plotPosition } from './garden';
+export { childrenOf, formatInbreeding, inbreedingOf } from './pedigree';
+export { VIGOR_LOCI, expressVigor, fruitColor, formatGenotype, hasRecessiveColor, plantVigor, recessiveVigorLoci } from './genetics';
+export { DAYS_PER_SEASON, SEASON_EMOJIS, SEASON_NAMES, bloomWindowText, dayLength, formatDate, formatDayLength, isFlowering, seasonOf } from './calendar';
+export { DELAYS, GAME_SPEEDS, TICK_MS, nextEventTick } from './scheduler';
+export { CLIMATES, CLIMATE_IDS, DEFAULT_CLIMATE, isClimateId } from './climates';
+export { LAYOUT_STREAM, mixSeed, seedFromText } from './random';
+export { FORECAST_LENGTH, isDrying, isFrost, isHeatwave, isRaining, isWindy, WIND_DIRECTION_NAMES, WIND_DIRECTIONS, WIND_STRENGTH_NAMES, WIND_STRENGTHS } from './weather';
+export { STAGE_NAMES, isWilted } from './plants';
+export { RIPENESS_NAMES, fruitRipeness, type Ripeness } from './growth';
+export { GERMINATION_MOISTURE, MAX_MOISTURE, WATERLOGGED_MOISTURE, WILTING_POINT, isMoist, isTooDry, isWaterlogged } from './water';
+export { BEE_FORAGING_RANGE, POLLINATORS, POLLINATOR_KINDS, isFlowerOpen } from './pollinators';
+export { selfFertilizationText } from './pollination';
+export { MAX_POPULATION, SICK_HEALTH, foragingEfficiency, isColonyAlive } from './hive';
+export { MAX_NUTRIENT, NUTRIENT_NAMES, NUTRIENT_SYMBOLS, NUTRIENTS, SALTY_SOIL, isOrganicSoil, isSaltySoil, limitingNutrient, repeatedHarvests, soilHarvestSize } from './soil';
+export { MAX_RESIDUE, hasResidue } from './pesticide';
+export { DAMAGING_SEVERITY, LADYBUG_RANGE, PEST_EMOJIS, PEST_NAMES, isGuardedByLadybugs, ladybugPlotIds } from './pests';
+export { harvestSize } from './harvest';
+export { isSeedLotTool } from './seeds';
+export { COMPOST_DAYS, daysToMature } from './compost';
+export { BRISK_DEMAND, HIVE_PRICE, INVENTORY_CATEGORIES, PESTICIDE_PRICE, SLOW_DEMAND, demandFor, formatMoney, salePrice, seedPrice } from './market';
+export { COMPANION_DESCRIPTIONS, COMPANION_EMOJIS, companionLinks } from './companions';
@@ -0,0 +1,74 @@
+import { notify } from './notifications';
+import { getSpecies, SPECIES_LIST } from './species';
+import type { Clock, GameState, InventoryCategory, MarketState, PlantSize, PlantType } from './types';
+
+// Reais a new garden starts with: seed for a first bed, not for a hive
+const STARTING_CASH = 30;
+// A nucleus colony for the kept hive
+export const HIVE_PRICE = 40;
+// One spray of pesticide on one plant
+export const PESTICIDE_PRICE = 3;
+
+export const INVENTORY_CATEGORIES: InventoryCategory[] = ['plain', 'organic', 'pesticide'];
+
+const SIZE_PRICES: Record<PlantSize, number> = { small: 0.6, normal: 1, large: 1.5 };
+// Buyers pay more for organic produce and less for produce with heavy pesticide residue
+const CATEGORY_PRICES: Record<InventoryCategory, number> = { plain: 1, organic: 1.5, pesticide: 0.5 };
+
+// Demand moves within these bounds, drifting back towards 1 day by day
+const MIN_DEMAND = 0.5;
+const MAX_DEMAND = 1.5;
+const DEMAND_RECOVERY = 0.2;
+const DEMAND_SWING = 0.3;
+// Every item sold fills the buyers up a little
+const SALE_SATURATION = 0.05;
+// Above or below this, the market panel calls demand high or low
+export const BRISK_DEMAND = 1.15;
+export const SLOW_DEMAND = 0.85;
+
+export const createMarket = (): MarketState => ({ cash: STARTING_CASH, demand: {} });
+
+export const formatMoney = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+export const demandFor = (state: GameState, type: PlantType) => state.market.demand[type] ?? 1;
+
+const clampDemand = (demand: number) => Math.min(MAX_DEMAND, Math.max(MIN_DEMAND, demand));
+
+export const seedPrice = (type: PlantType) => getSpecies(type).prices.seed;
+
+export const salePrice = (state: GameState, type: PlantType, size: PlantSize, category: InventoryCategory) =>
+  Math.round(getSpecies(type).prices.produce * SIZE_PRICES[size] * CATEGORY_PRICES[category] * demandFor(state, type) * 100) / 100;
+
+// Pays for something and then uses it; without the money nothing happens
+export const buy = (state: GameState, clock: Clock, price: number, item: string, use: (paid: GameState) => GameState): GameState => {
+  if (state.market.cash < price) {
+    return notify(
+      state,
+      clock,
+      "Sem Dinheiro 💸",
+      `${item} custa ${formatMoney(price)}, mas você só tem ${formatMoney(state.market.cash)}. Venda parte da colheita na feira (🏪), ou use o que a horta já dá de graça: sementes guardadas, composto e os polinizadores silvestres.`,
+    );
+  }
+  return use({ ...state, market: { ...state.market, cash: state.market.cash - price } });
+};
+
+// One item leaves the inventory for the market stall
+export const sellProduce = (state: GameState, type: PlantType, size: PlantSize, category: InventoryCategory): GameState => {
+  const counts = state.inventory[type]?.[size];
+  if (!counts || counts[category] < 1) return state;
+  const inventory = { ...state.inventory, [type]: { ...state.inventory[type], [size]: { ...counts, [category]: counts[category] - 1 } } };
+  const market = {
+    cash: state.market.cash + salePrice(state, type, size, category),
+    demand: { ...state.market.demand, [type]: clampDemand(demandFor(state, type) - SALE_SATURATION) },
+  };
+  return { ...state, inventory, market };
+};
+
+// At dawn buyers want more of some crops and less of others
+export const updateDemand = (state: GameState, clock: Clock): GameState => {
+  const demand = Object.fromEntries(SPECIES_LIST.map(({ name }) => {
+    const today = demandFor(state, name);
+    return [name, clampDemand(today + (1 - today) * DEMAND_RECOVERY + (clock.random() - 0.5) * DEMAND_SWING)];
+  }));
+  return { ...state, market: { ...state.market, demand } };
+};
@@ -0,0 +1,33 @@
+import { makeId } from './plants';
+import type { Clock, GameAction, GameState, Notification } from './types';
+
+export const notify = (state: GameState, clock: Clock, title: string, message: string, onDismiss?: GameAction): GameState => {
+  const newNote: Notification = {
+    id: makeId(clock),
+    title,
+    message,
+    timestamp: clock.wallTime,
+    isNew: true,
+    onDismiss,
+  };
+
+  return {
+    ...state,
+    notifications: [newNote, ...state.notifications],
+    // Adiciona ao topo da pilha de modais
+    modalStack: [newNote.id, ...state.modalStack],
+  };
+};
+
+// Pops the top modal and hands back the follow-up action it was carrying
+export const popModal = (state: GameState): [GameAction | undefined, GameState] => {
+  const [topId, ...rest] = state.modalStack;
+  if (topId === undefined) return [undefined, state];
+  const note = state.notifications.find(n => n.id === topId);
+  return [note?.onDismiss, { ...state, modalStack: rest }];
+};
+
+export const markAllRead = (state: GameState): GameState => ({
+  ...state,
+  notifications: state.notifications.map(n => (n.isNew ? { ...n, isNew: false } : n)),
+});
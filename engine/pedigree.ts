@@ -0,0 +1,86 @@
+import type { GameState, PedigreeEntry, PedigreeRegistry, PlantState } from './types';
+
+// Selfed plants and clones list their single parent once; genetically it is both parents
+const parentsOf = (entry: PedigreeEntry | undefined): [string, string] | null => {
+  if (!entry || entry.parentIds.length === 0) return null;
+  const [mother, father = mother] = entry.parentIds;
+  return [mother, father];
+};
+
+// Coefficient of coancestry f(A, B): the chance that an allele drawn from A and
+// one drawn from B at the same locus are identical by descent. Always expands
+// the younger plant, so an ancestor is never expanded below its descendants.
+// Plants missing from the registry are treated as unrelated founders, and so is
+// a plant met again while its own ancestry is being expanded (a broken record).
+export const coancestry = (
+  pedigree: PedigreeRegistry,
+  idA: string,
+  idB: string,
+  memo = new Map<string, number>(),
+  expanding = new Set<string>(),
+): number => {
+  const key = idA < idB ? `${idA}|${idB}` : `${idB}|${idA}`;
+  const cached = memo.get(key);
+  if (cached !== undefined) return cached;
+
+  const a = pedigree[idA];
+  const b = pedigree[idB];
+  let result: number;
+  if (idA === idB) {
+    result = (1 + (a?.inbreeding ?? 0)) / 2;
+  } else {
+    const [younger, other] = (a?.generation ?? 0) >= (b?.generation ?? 0) ? [idA, idB] : [idB, idA];
+    const parents = expanding.has(younger) ? null : parentsOf(pedigree[younger]);
+    if (parents) expanding.add(younger);
+    result = parents ? (coancestry(pedigree, parents[0], other, memo, expanding) + coancestry(pedigree, parents[1], other, memo, expanding)) / 2 : 0;
+    expanding.delete(younger);
+  }
+
+  memo.set(key, result);
+  return result;
+};
+
+// Wright's F of a plant with these parents: the coancestry of its mother and father
+export const inbreedingCoefficient = (pedigree: PedigreeRegistry, parentIds: string[]): number => {
+  if (parentIds.length === 0) return 0;
+  const [mother, father = mother] = parentIds;
+  return coancestry(pedigree, mother, father);
+};
+
+export const inbreedingOf = (state: GameState, instanceId: string) => state.pedigree[instanceId]?.inbreeding ?? 0;
+
+// Every plant that ever grows in the garden is recorded, and stays recorded after it leaves
+export const registerPlant = (state: GameState, plant: PlantState): GameState => {
+  if (state.pedigree[plant.instanceId]) return state;
+
+  const parentGenerations = plant.parentIds.map(id => state.pedigree[id]?.generation ?? 0);
+  const entry: PedigreeEntry = {
+    instanceId: plant.instanceId,
+    type: plant.type,
+    parentIds: plant.parentIds,
+    genotype: plant.genotype,
+    ...(plant.pollination && { pollination: plant.pollination }),
+    generation: parentGenerations.length > 0 ? Math.max(...parentGenerations) + 1 : 0,
+    // A clone is the same genetic individual as its mother, not her selfed offspring
+    inbreeding: plant.pollination === 'clone' ? inbreedingOf(state, plant.parentIds[0]) : inbreedingCoefficient(state.pedigree, plant.parentIds),
+    bornAt: state.scheduler.tick,
+  };
+  return { ...state, pedigree: { ...state.pedigree, [plant.instanceId]: entry } };
+};
+
+export const childrenOf = (pedigree: PedigreeRegistry, instanceId: string): PedigreeEntry[] =>
+  Object.values(pedigree).filter(entry => entry.parentIds.includes(instanceId));
+
+export const markHarvested = (state: GameState, instanceId: string): GameState => {
+  const entry = state.pedigree[instanceId];
+  if (!entry) return state;
+  return { ...state, pedigree: { ...state.pedigree, [instanceId]: { ...entry, harvestedAt: state.scheduler.tick } } };
+};
+
+export const markDied = (state: GameState, instanceId: string): GameState => {
+  const entry = state.pedigree[instanceId];
+  if (!entry) return state;
+  return { ...state, pedigree: { ...state.pedigree, [instanceId]: { ...entry, diedAt: state.scheduler.tick } } };
+};
+
+export const formatInbreeding = (f: number) => f.toFixed(3).replace('.', ',');
@@ -0,0 +1,95 @@
+import { plotPosition } from './garden';
+import { notify } from './notifications';
+import type { Clock, GameState, PlotState } from './types';
+import { isRaining, isWindy, windStep } from './weather';
+
+export const MAX_RESIDUE = 100;
+// Residue one spraying leaves on the plot
+const PESTICIDE_DOSE = 50;
+// Share broken down by sun and soil life each day
+const DAILY_DECAY = 0.3;
+// Share blown onto the next plot downwind, per point of wind strength
+const DRIFT_PER_STRENGTH = 0.1;
+// Share rain washes out of a plot, split between the four plots around it
+const RAIN_WASH = 0.3;
+const STORM_WASH = 0.5;
+// Below this nothing is left worth measuring
+const TRACE = 1;
+// From this much residue on, buyers count the harvest as sprayed: a recent spraying, not drift
+export const HEAVY_RESIDUE = 20;
+
+export const hasResidue = (plot: PlotState) => plot.pesticide > 0;
+export const hasHeavyResidue = (plot: PlotState) => plot.pesticide >= HEAVY_RESIDUE;
+
+export const sprayPesticide = (state: GameState, plotId: number): GameState => ({
+  ...state,
+  garden: state.garden.map(plot => (plot.id === plotId ? { ...plot, pesticide: Math.min(MAX_RESIDUE, plot.pesticide + PESTICIDE_DOSE) } : plot)),
+});
+
+// Average residue a forager picks up working these plots
+export const exposureOn = (state: GameState, plotIds: number[]) =>
+  plotIds.length === 0 ? 0 : plotIds.reduce((sum, plotId) => sum + state.garden[plotId].pesticide, 0) / plotIds.length;
+
+// --- DAILY RESIDUE ---
+
+// The usable plot at this offset, if any; residue carried off the garden or onto a path is gone
+const plotAt = (state: GameState, plotId: number, [dx, dy]: [number, number]): number | null => {
+  const { row, col } = plotPosition(state.gardenSize, plotId);
+  const target = { row: row + dy, col: col + dx };
+  if (target.row < 0 || target.row >= state.gardenSize.height || target.col < 0 || target.col >= state.gardenSize.width) return null;
+  const id = target.row * state.gardenSize.width + target.col;
+  return state.garden[id].isDisabled ? null : id;
+};
+
+// Moves `share` of every plot's residue to the plots `targets` picks, in equal parts
+const moveResidue = (state: GameState, residue: number[], share: number, targets: (plotId: number) => (number | null)[]): number[] => {
+  const next = [...residue];
+  residue.forEach((amount, plotId) => {
+    if (amount === 0) return;
+    const moved = amount * share;
+    const destinations = targets(plotId);
+    next[plotId] -= moved;
+    for (const target of destinations) {
+      if (target !== null) next[target] += moved / destinations.length;
+    }
+  });
+  return next;
+};
+
+const ORTHOGONAL: [number, number][] = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+// Plants that had no residue and got some today
+const newlyReached = (state: GameState, residue: number[]) =>
+  state.garden.filter(plot => plot.plant && plot.pesticide === 0 && residue[plot.id] > 0).length;
+
+// Once a day residue drifts with the wind, runs off with the rain and breaks down
+export const updateResidue = (state: GameState, clock: Clock): GameState => {
+  let residue = state.garden.map(plot => plot.pesticide);
+  if (residue.every(amount => amount === 0)) return state;
+
+  const { weather, wind } = state;
+  if (isWindy(weather) && wind) {
+    residue = moveResidue(state, residue, DRIFT_PER_STRENGTH * wind.strength, plotId => [plotAt(state, plotId, windStep(wind))]);
+  }
+  const drifted = newlyReached(state, residue);
+  if (isRaining(weather)) {
+    residue = moveResidue(state, residue, weather === 'storm' ? STORM_WASH : RAIN_WASH, plotId => ORTHOGONAL.map(offset => plotAt(state, plotId, offset)));
+  }
+  const washed = newlyReached(state, residue) - drifted;
+  residue = residue.map(amount => {
+    const left = amount * (1 - DAILY_DECAY);
+    return left < TRACE ? 0 : Math.min(MAX_RESIDUE, left);
+  });
+
+  let next: GameState = {
+    ...state,
+    garden: state.garden.map(plot => (plot.pesticide === residue[plot.id] ? plot : { ...plot, pesticide: residue[plot.id] })),
+  };
+  if (drifted > 0) {
+    next = notify(next, clock, "Deriva de Agrotóxico 🌬️☠️", `O vento levou gotas do agrotóxico para ${drifted === 1 ? 'uma planta vizinha' : `${drifted} plantas vizinhas`}, que nem foram pulverizadas. Nunca pulverize em dia de vento.`);
+  }
+  if (washed > 0) {
+    next = notify(next, clock, "Agrotóxico na Enxurrada 🌧️☠️", `A chuva lavou o agrotóxico das folhas e a água o levou para ${washed === 1 ? 'uma planta vizinha' : `${washed} plantas vizinhas`}. O que escorre acaba nos rios e no lençol freático.`);
+  }
+  return next;
+};
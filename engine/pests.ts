@@ -0,0 +1,152 @@
+import { isFlowering } from './calendar';
+import { neighborIds, plotDistance } from './garden';
+import { notify } from './notifications';
+import { exposureOn } from './pesticide';
+import { pickWeighted } from './random';
+import { DELAYS, hasTimer, schedule } from './scheduler';
+import { getSpecies } from './species';
+import type { Clock, GameState, PestType, PlantState, PlotState } from './types';
+
+export const PEST_NAMES: Record<PestType, string> = { aphid: 'Pulgões', caterpillar: 'Lagartas' };
+export const PEST_EMOJIS: Record<PestType, string> = { aphid: '🦟', caterpillar: '🐛' };
+
+// Chance per check that pests from outside find a healthy host
+const OUTBREAK_CHANCE = 0.01;
+// A species covering the whole garden is found this many times more often
+const MONOCULTURE_FACTOR = 3;
+const FIRST_SEVERITY = 10;
+const PEST_GROWTH = 10;
+// From this severity pests walk or fly to neighbours of the same species
+const SPREAD_SEVERITY = 30;
+const SPREAD_CHANCE = 0.4;
+// From these the harvest drops one and two sizes
+export const DAMAGING_SEVERITY = 40;
+const RUINOUS_SEVERITY = 80;
+
+// Ladybugs hunt this far from their flowers and eat this much per check,
+// but stay away from flowers with more residue than the tolerance
+export const LADYBUG_RANGE = 2;
+const LADYBUG_APPETITE = 20;
+const LADYBUG_TOLERANCE = 10;
+// Residue that kills pests on a plant and keeps new ones off
+const PEST_KILLING_RESIDUE = 10;
+
+const isHost = (plant: PlantState | null): plant is PlantState => !!plant && !!getSpecies(plant.type).pests?.length;
+
+const isProtected = (plot: PlotState) => plot.pesticide >= PEST_KILLING_RESIDUE;
+
+// Harvest sizes lost to the pests on this plant
+export const pestDamage = (plant: PlantState) => {
+  const severity = plant.infestation?.severity ?? 0;
+  if (severity >= RUINOUS_SEVERITY) return 2;
+  return severity >= DAMAGING_SEVERITY ? 1 : 0;
+};
+
+const plotsNear = (state: GameState, plotId: number) =>
+  state.garden.filter(plot => plotDistance(state.gardenSize, plotId, plot.id) <= LADYBUG_RANGE).map(plot => plot.id);
+
+// Flowers that keep ladybugs around, as long as the residue nearby doesn't kill them
+export const ladybugPlotIds = (state: GameState) =>
+  state.garden
+    .filter(plot => isFlowering(state, plot.plant) && getSpecies(plot.plant.type).attractsLadybugs && exposureOn(state, plotsNear(state, plot.id)) < LADYBUG_TOLERANCE)
+    .map(plot => plot.id);
+
+export const isGuardedByLadybugs = (state: GameState, plotId: number) =>
+  ladybugPlotIds(state).some(home => plotDistance(state.gardenSize, home, plotId) <= LADYBUG_RANGE);
+
+const withSeverity = (plant: PlantState, severity: number): PlantState => {
+  if (severity <= 0) {
+    const { infestation, ...healthy } = plant;
+    return healthy;
+  }
+  return { ...plant, infestation: { ...plant.infestation!, severity: Math.min(100, severity) } };
+};
+
+// --- PEST CHECK ---
+
+const infest = (state: GameState, reached: Map<number, PestType>): GameState =>
+  reached.size === 0 ? state : {
+    ...state,
+    garden: state.garden.map(plot => {
+      const pest = reached.get(plot.id);
+      return pest && plot.plant ? { ...plot, plant: { ...plot.plant, infestation: { pest, severity: FIRST_SEVERITY } } } : plot;
+    }),
+  };
+
+// Pests on a plant grow, and ladybugs nearby eat more than they breed
+const growPests = (state: GameState): [GameState, PlantState[]] => {
+  const eaten: PlantState[] = [];
+  const garden = state.garden.map(plot => {
+    const plant = plot.plant;
+    if (!plant?.infestation) return plot;
+    const appetite = isGuardedByLadybugs(state, plot.id) ? LADYBUG_APPETITE : 0;
+    const next = withSeverity(plant, plant.infestation.severity + PEST_GROWTH - appetite);
+    if (!next.infestation) eaten.push(plant);
+    return { ...plot, plant: next };
+  });
+  return [{ ...state, garden }, eaten];
+};
+
+// Pests only move between plants of the same species, so mixed beds slow them down
+const spreadPests = (state: GameState, clock: Clock): GameState => {
+  const reached = new Map<number, PestType>();
+  for (const plot of state.garden) {
+    const infestation = plot.plant?.infestation;
+    if (!infestation || infestation.severity < SPREAD_SEVERITY) continue;
+    for (const id of neighborIds(state.gardenSize, plot.id)) {
+      const neighbor = state.garden[id];
+      if (neighbor.plant?.type !== plot.plant!.type || neighbor.plant.infestation || isProtected(neighbor) || reached.has(id)) continue;
+      if (clock.random() < SPREAD_CHANCE) reached.set(id, infestation.pest);
+    }
+  }
+  return infest(state, reached);
+};
+
+// The more of the garden a species covers, the easier its pests find it
+const breakOut = (state: GameState, clock: Clock): [GameState, Map<number, PestType>] => {
+  const planted = state.garden.filter(plot => plot.plant);
+  const found = new Map<number, PestType>();
+  for (const plot of planted) {
+    const plant = plot.plant!;
+    if (!isHost(plant) || plant.stage === 'seedling' || plant.infestation || isProtected(plot)) continue;
+    const share = planted.filter(other => other.plant!.type === plant.type).length / planted.length;
+    if (clock.random() >= OUTBREAK_CHANCE * (1 + MONOCULTURE_FACTOR * share)) continue;
+    found.set(plot.id, pickWeighted(getSpecies(plant.type).pests!.map(pest => ({ item: pest, weight: 1 })), clock));
+  }
+  return [infest(state, found), found];
+};
+
+const announceOutbreaks = (state: GameState, clock: Clock, found: Map<number, PestType>): GameState => {
+  const planted = state.garden.filter(plot => plot.plant);
+  return [...new Set(found.values())].reduce((next, pest) => {
+    const types = [...new Set([...found].filter(([, p]) => p === pest).map(([plotId]) => state.garden[plotId].plant!.type))];
+    const isMonoculture = types.some(type => planted.filter(plot => plot.plant!.type === type).length * 2 > planted.length);
+    return notify(
+      next,
+      clock,
+      `${PEST_NAMES[pest]} na Horta ${PEST_EMOJIS[pest]}`,
+      `Apareceram ${PEST_NAMES[pest].toLowerCase()} em: ${types.join(', ')}. A praga passa para as plantas vizinhas da mesma espécie e diminui a colheita. ` +
+        'Você pode pulverizar agrotóxico (rápido, mas mata as abelhas), plantar girassóis por perto para atrair joaninhas (mais lento) ou arrancar as plantas atacadas com a ferramenta Colher (🧺).' +
+        (isMonoculture ? ' Uma horta com uma cultura só é um banquete para as pragas: misture as espécies.' : ''),
+    );
+  }, state);
+};
+
+export const handlePestCheck = (state: GameState, clock: Clock): GameState => {
+  const [grown, eaten] = growPests(state);
+  const [withOutbreaks, found] = breakOut(spreadPests(grown, clock), clock);
+  let next = announceOutbreaks(withOutbreaks, clock, found);
+  if (eaten.length > 0) {
+    next = notify(next, clock, "Joaninhas em Ação 🐞", `As joaninhas que vivem nos girassóis acabaram com as pragas de: ${[...new Set(eaten.map(plant => plant.type))].join(', ')}. O controle biológico é mais lento que o agrotóxico, mas não mata as abelhas.`);
+  }
+  return next;
+};
+
+// Residue kills pests as soon as it lands, and the check runs for as long as the game does
+export const reconcilePests = (state: GameState): GameState => {
+  const isPoisoned = (plot: PlotState) => !!plot.plant?.infestation && isProtected(plot);
+  const next = state.garden.some(isPoisoned)
+    ? { ...state, garden: state.garden.map(plot => (isPoisoned(plot) ? { ...plot, plant: withSeverity(plot.plant!, 0) } : plot)) }
+    : state;
+  return hasTimer(next, event => event.kind === 'pestCheck') ? next : schedule(next, DELAYS.pestCheck, { kind: 'pestCheck' });
+};
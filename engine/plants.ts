@@ -0,0 +1,51 @@
+import { commercialGenotype, crossGenotypes } from './genetics';
+import { getSpecies } from './species';
+import type { Clock, Genotype, PlantStage, PlantState, PlantType, PollinationMethod } from './types';
+
+export const STAGE_NAMES: Record<PlantStage, string> = {
+  seedling: 'Muda',
+  vegetative: 'Crescendo',
+  flowering: 'Em flor',
+  fruiting: 'Com frutos',
+  senescent: 'Envelhecendo',
+};
+
+export const makeId = (clock: Clock) => clock.random().toString(36).substring(2, 9);
+
+// Commercial seeds get a fresh genotype; offspring pass the one they inherited
+export const createPlant = (clock: Clock, type: PlantType, parentIds: string[] = [], genotype: Genotype = commercialGenotype(clock, type)): PlantState => ({
+  instanceId: makeId(clock),
+  type,
+  stage: 'seedling',
+  phenotype: getSpecies(type).emoji,
+  parentIds,
+  genotype,
+  isBoosted: false,
+});
+
+// Parents only pass on who they are and their genes, so saved seeds can breed from the pedigree
+type Parent = Pick<PlantState, 'instanceId' | 'type' | 'genotype'>;
+
+// Sexual reproduction: the offspring's genotype comes from one gamete of each parent
+export const breed = (clock: Clock, mother: Parent, father: Parent, pollination: PollinationMethod): PlantState => ({
+  ...createPlant(
+    clock,
+    mother.type,
+    mother.instanceId === father.instanceId ? [mother.instanceId] : [mother.instanceId, father.instanceId],
+    crossGenotypes(clock, mother.genotype, father.genotype),
+  ),
+  pollination,
+});
+
+// Vegetative propagation: a cutting grows into a genetically identical plant
+export const clonePlant = (clock: Clock, plant: PlantState): PlantState => ({
+  ...createPlant(clock, plant.type, [plant.instanceId], plant.genotype),
+  pollination: 'clone',
+});
+
+// Self-incompatible species also reject pollen between parent and child
+export const areParentAndChild = (plantA: PlantState, plantB: PlantState) =>
+  !!plantA.parentIds?.includes(plantB.instanceId) || !!plantB.parentIds?.includes(plantA.instanceId);
+
+// Too dry or drowning: a wilted plant keeps its flowers shut
+export const isWilted = (plant: PlantState) => (plant.waterStress ?? 0) > 0;
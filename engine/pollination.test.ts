@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createPlant } from './plants';
+import { createInitialState, createStateFromLayout, step } from './step';
+import type { Clock, GameState, PlantState, PlantType } from './types';
+
+const clock = (): Clock => ({ wallTime: 0, random: Math.random });
+
+const flowering = (type: PlantType, parentIds: string[] = []): PlantState => ({ ...createPlant(clock(), type, parentIds), stage: 'flowering' });
+
+// A spring garden with the given plants on the first plots, in moist soil
+const gardenWith = (plants: PlantState[]): GameState => {
+  const state = createInitialState(clock(), { width: 3, height: 3 }, [], { seed: 1 });
+  const garden = state.garden.map((plot, index) => ({ ...plot, moisture: 60, plant: plants[index] ?? null }));
+  return createStateFromLayout(clock(), { ...state, garden });
+};
+
+const plantsIn = (state: GameState) => state.garden.flatMap(plot => (plot.plant ? [plot.plant] : []));
+
+const brush = (state: GameState, ...plotIds: number[]) =>
+  plotIds.reduce((acc, plotId) => step(acc, { type: 'clickPlot', plotId, tool: 'polinizacao_manual' }, clock()), state);
+
+const tick = (state: GameState, ticks: number) =>
+  Array.from({ length: ticks }).reduce<GameState>(acc => step(acc, { type: 'tick' }, clock()), state);
+
+describe('manual pollination', () => {
+  it('crosses two unrelated apple trees', () => {
+    const mother = flowering('Maçã');
+    const father = flowering('Maçã');
+    const next = brush(gardenWith([mother, father]), 1, 0);
+
+    const seedlings = plantsIn(next).filter(plant => plant.stage === 'seedling');
+    expect(seedlings).toHaveLength(1);
+    expect(seedlings[0].parentIds).toEqual([mother.instanceId, father.instanceId]);
+    expect(next.pollenSack).toBeNull();
+  });
+
+  it('keeps an apple tree from being pollinated by its parent', () => {
+    const parent = flowering('Maçã');
+    const child = flowering('Maçã', [parent.instanceId]);
+    const next = brush(gardenWith([parent, child]), 0, 1);
+
+    expect(plantsIn(next)).toHaveLength(2);
+    expect(next.pollenSack).toBeNull();
+    expect(next.notifications[0].title).toContain('Polinização Inválida');
+  });
+
+  it('keeps an apple tree from pollinating itself', () => {
+    const next = brush(gardenWith([flowering('Maçã')]), 0, 0);
+
+    expect(plantsIn(next)).toHaveLength(1);
+    expect(next.notifications[0].title).toContain('Polinização Inválida');
+  });
+});
+
+describe('self-fertilization', () => {
+  it('gives a lone bean plant a seedling of its own once its delay has passed', () => {
+    const bean = flowering('Feijão');
+    const garden = gardenWith([bean]);
+    const before = tick(garden, 200);
+    expect(plantsIn(before)).toHaveLength(1);
+
+    const after = tick(before, 40);
+    const seedlings = plantsIn(after).filter(plant => plant.stage === 'seedling');
+    expect(seedlings).toHaveLength(1);
+    expect(seedlings[0].parentIds).toEqual([bean.instanceId]);
+    expect(seedlings[0].pollination).toBe('self');
+  });
+
+  it('never lets an apple tree set seed alone', () => {
+    const garden = tick(gardenWith([flowering('Maçã')]), 400);
+    expect(plantsIn(garden)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,403 @@
+import { bloomWindowText, isFlowering, isInBloom } from './calendar';
+import { findEmptySpot, isFreePlot, isPlantStillThere, placePlant, plotDistance, plotPosition } from './garden';
+import { notify } from './notifications';
+import { exposureOn } from './pesticide';
+import { plantVigor } from './genetics';
+import { formatInbreeding, inbreedingOf } from './pedigree';
+import { areParentAndChild, breed, isWilted, STAGE_NAMES } from './plants';
+import { pickWeighted } from './random';
+import { DELAYS, schedule, TICK_MS } from './scheduler';
+import { getSpecies, speciesWithSyndrome, syndromeOf } from './species';
+import type { Clock, Connection, GameState, NotificationText, PendingBirth, PlantState, PlantType, PollenSack, PollinatorKind, TimedEvent, Wind } from './types';
+import { isHeatwave, windVector } from './weather';
+
+export const hasReproduced = (state: GameState, instanceId: string) =>
+  state.reproducedPlantIds.includes(instanceId);
+
+export const markReproduced = (state: GameState, ...instanceIds: string[]): GameState => {
+  const fresh = instanceIds.filter(id => !hasReproduced(state, id));
+  return fresh.length > 0 ? { ...state, reproducedPlantIds: [...state.reproducedPlantIds, ...fresh] } : state;
+};
+
+const floweringOfType = (state: GameState, type: PlantType) =>
+  state.garden.filter(p => p.plant?.type === type && isFlowering(state, p.plant));
+
+const removeConnections = (state: GameState, predicate: (conn: Connection) => boolean): GameState => ({
+  ...state,
+  activeConnections: state.activeConnections.filter(conn => !predicate(conn)),
+});
+
+const removeAnimating = (state: GameState, plotIds: number[]): GameState => ({
+  ...state,
+  animatingPlots: state.animatingPlots.filter(id => !plotIds.includes(id)),
+});
+
+// Small and hybrid offspring deserve an explanation; ordinary ones get the caller's message.
+// Reads Wright's F from the pedigree, so the offspring must already be placed.
+const explainOffspring = (state: GameState, offspring: PlantState): [string, string] | null => {
+  const inbreeding = inbreedingOf(state, offspring.instanceId);
+  switch (plantVigor(offspring)) {
+    case 'hybrid':
+      return ["Vigor Híbrido (Heterose) 🚀", "O broto é heterozigoto em vários genes de vigor: os alelos dominantes de um pai escondem os recessivos do outro."];
+    case 'small':
+      return inbreeding > 0
+        ? ["Depressão Endogâmica 🧬", `Sua planta diminuiu! Os pais eram aparentados (coeficiente de endogamia F = ${formatInbreeding(inbreeding)}), então um alelo recessivo prejudicial apareceu em dose dupla.`]
+        : ["Alelo Recessivo 🧬", "Os dois pais não eram parentes, mas carregavam escondido o mesmo alelo recessivo de tamanho, e o broto herdou as duas cópias."];
+    case 'normal':
+      return null;
+  }
+};
+
+const selfDepressionNote = (state: GameState, offspring: PlantState) =>
+  plantVigor(offspring) === 'small'
+    ? ` Desta vez um alelo recessivo apareceu em dose dupla e o broto nasceu menor (F = ${formatInbreeding(inbreedingOf(state, offspring.instanceId))}).`
+    : '';
+
+// Species without their own text in species.json get a generic one
+const crossMessage = (type: PlantType): NotificationText =>
+  getSpecies(type).messages.crossPollination ?? [
+    `Polinização Cruzada (${type}) ${syndromeOf(type) === 'wind' ? '🌬️' : '🌼'}`,
+    `O pólen viajou de uma planta de ${type} para outra. Isso garante maior diversidade genética.`,
+  ];
+
+const selfMessage = (type: PlantType): NotificationText =>
+  getSpecies(type).messages.selfPollination ?? [
+    `Autofecundação (${type}) 🔁`,
+    "Sem parceiros por perto, a planta se autofecundou. Isso aumenta a homozigose.",
+  ];
+
+const notifyCrossOutcome = (state: GameState, clock: Clock, offspring: PlantState) =>
+  notify(state, clock, ...(explainOffspring(state, offspring) ?? crossMessage(offspring.type)));
+
+// --- ANIMAL POLLINATION ---
+
+// A pollinator lands on a flower with pollen from the last flower it visited.
+// Returns null when the pollen can't fertilize it, and the animal simply flies on.
+export const deliverPollen = (state: GameState, plotId: number, pollen: PollenSack, pollinator: PollinatorKind): GameState | null => {
+  const plant = state.garden[plotId]?.plant;
+  if (!isFlowering(state, plant) || plant.type !== pollen.plant.type || plant.instanceId === pollen.plant.instanceId) return null;
+  if (hasReproduced(state, plant.instanceId)) return null;
+  // Self-incompatible flowers reject pollen from their parents and children
+  if (getSpecies(plant.type).pollination.selfIncompatible && areParentAndChild(plant, pollen.plant)) return null;
+
+  let next = markReproduced(state, plant.instanceId);
+  next = {
+    ...next,
+    activeConnections: [...next.activeConnections, { from: pollen.sourcePlotId, to: plotId, type: plant.type, pollinator }],
+    animatingPlots: [...next.animatingPlots, plotId],
+  };
+  return schedule(next, DELAYS.animalPollination, { kind: 'animalPollination', plotId, instanceId: plant.instanceId, pollen, pollinator });
+};
+
+// The pollen donor may be gone by now: the seed only needs the mother plant
+export const handleAnimalPollination = (
+  state: GameState,
+  clock: Clock,
+  { plotId, instanceId, pollen, pollinator }: { plotId: number; instanceId: string; pollen: PollenSack; pollinator: PollinatorKind },
+): GameState => {
+  let next = removeConnections(state, conn => conn.from === pollen.sourcePlotId && conn.to === plotId);
+  next = removeAnimating(next, [plotId]);
+  if (!isPlantStillThere(next, plotId, instanceId)) return next;
+
+  const emptySpotId = findEmptySpot(next, plotId);
+  if (emptySpotId === null) return next;
+
+  const offspring = breed(clock, next.garden[plotId].plant!, pollen.plant, pollinator);
+  next = placePlant(next, emptySpotId, offspring);
+  return notifyCrossOutcome(next, clock, offspring);
+};
+
+// --- SELF-FERTILIZATION ---
+
+const SELF_FERTILIZATION_EVENTS = {
+  self: 'autogamyStart',
+  buzz: 'buzzPollination',
+  animal: 'selfPollination',
+  wind: 'selfPollination',
+} as const;
+
+// Species that can do without a partner self-fertilize a while after growing:
+// autogamous ones always, buzz-pollinated ones when the bumblebees come, and
+// the others only if nobody pollinated them by then
+export const scheduleSelfFertilization = (state: GameState, plotId: number, plant: PlantState): GameState => {
+  const { syndrome, needsPartner, selfFertilizationDelay } = getSpecies(plant.type).pollination;
+  if (needsPartner || selfFertilizationDelay === undefined) return state;
+  return schedule(state, selfFertilizationDelay, { kind: SELF_FERTILIZATION_EVENTS[syndrome], plotId, instanceId: plant.instanceId });
+};
+
+// "Se autofecunda 23s depois de florescer.", for the seed tooltips of autogamous species
+export const selfFertilizationText = (type: PlantType) => {
+  const { syndrome, selfFertilizationDelay } = getSpecies(type).pollination;
+  if (syndrome !== 'self' || selfFertilizationDelay === undefined) return null;
+  const seconds = Math.round(((selfFertilizationDelay + DELAYS.autogamyEffect) * TICK_MS) / 1000);
+  return `Se autofecunda ${seconds}s depois de florescer.`;
+};
+
+// Out of season the flowers stay shut; the plant tries again later
+const waitForBloom = (state: GameState, event: TimedEvent): GameState => schedule(state, DELAYS.bloomCheck, event);
+
+export const handleSelfPollination = (state: GameState, clock: Clock, plotId: number, instanceId: string): GameState => {
+  if (!isPlantStillThere(state, plotId, instanceId) || hasReproduced(state, instanceId)) return state;
+
+  // Flowers nobody pollinated in time fall back on their own pollen
+  const plant = state.garden[plotId].plant!;
+  if (!isFlowering(state, plant)) return waitForBloom(state, { kind: 'selfPollination', plotId, instanceId });
+  const type = plant.type;
+  const emptySpotId = findEmptySpot(state, plotId);
+  if (emptySpotId === null) return state;
+
+  const offspring = breed(clock, plant, plant, 'self');
+  const next = placePlant(markReproduced(state, instanceId), emptySpotId, offspring);
+  const [title, message] = selfMessage(type);
+  return notify(next, clock, title, message + selfDepressionNote(next, offspring));
+};
+
+// Autogamous flowers pollinate themselves while still closed, partner or not
+export const handleAutogamyStart = (state: GameState, plotId: number, instanceId: string): GameState => {
+  if (!isPlantStillThere(state, plotId, instanceId)) return state;
+  if (!isFlowering(state, state.garden[plotId].plant)) return waitForBloom(state, { kind: 'autogamyStart', plotId, instanceId });
+  const next = { ...state, animatingPlots: [...state.animatingPlots, plotId] };
+  return schedule(next, DELAYS.autogamyEffect, { kind: 'autogamy', plotId, instanceId });
+};
+
+export const handleAutogamy = (state: GameState, clock: Clock, plotId: number, instanceId: string): GameState => {
+  const next = { ...state, animatingPlots: state.animatingPlots.filter(id => id !== plotId) };
+  if (!isPlantStillThere(next, plotId, instanceId)) return next;
+
+  const plant = next.garden[plotId].plant!;
+  const emptySpotId = findEmptySpot(next, plotId);
+  if (emptySpotId === null) {
+    return notify(next, clock, `Sem Espaço para Auto-fecundação (${plant.type}) ${plant.phenotype}`, "A planta tentou se auto-polinizar, mas não havia espaço no jardim para um novo broto.");
+  }
+
+  const offspring = breed(clock, plant, plant, 'self');
+  const withOffspring = placePlant(next, emptySpotId, offspring);
+  const [title, message] = selfMessage(plant.type);
+  return notify(withOffspring, clock, title, message + selfDepressionNote(withOffspring, offspring));
+};
+
+// --- BUZZ POLLINATION ---
+
+// Poricidal anthers only release pollen when shaken at the right frequency.
+// Wild bumblebees do it a while after the flower opens, crossing with another
+// flower when they find one, unless pesticides have kept them away.
+
+// Native bumblebees forage this far and stay away from much less residue than honeybees
+const BUMBLEBEE_RANGE = 2;
+const BUMBLEBEE_TOLERANCE = 10;
+
+const bumblebeeExposure = (state: GameState, plotId: number) =>
+  exposureOn(state, state.garden.filter(plot => isFlowering(state, plot.plant) && plotDistance(state.gardenSize, plotId, plot.id) <= BUMBLEBEE_RANGE).map(plot => plot.id));
+
+export const handleBuzzPollination = (state: GameState, clock: Clock, plotId: number, instanceId: string): GameState => {
+  if (!isPlantStillThere(state, plotId, instanceId) || hasReproduced(state, instanceId)) return state;
+
+  const plant = state.garden[plotId].plant!;
+  if (!isFlowering(state, plant)) return waitForBloom(state, { kind: 'buzzPollination', plotId, instanceId });
+  if (bumblebeeExposure(state, plotId) >= BUMBLEBEE_TOLERANCE) {
+    return notify(
+      markReproduced(state, instanceId),
+      clock,
+      `Sem Mamangavas (${plant.type}) ${plant.phenotype}`,
+      "Estas flores só soltam o pólen quando uma mamangava as vibra, e o agrotóxico afastou essas abelhas nativas. As abelhas de mel não sabem vibrar: a flor caiu sem ser polinizada."
+    );
+  }
+
+  const emptySpotId = findEmptySpot(state, plotId);
+  if (emptySpotId === null) return state;
+
+  const partner = floweringOfType(state, plant.type).find(p => p.plant!.instanceId !== instanceId && !hasReproduced(state, p.plant!.instanceId))?.plant;
+  const offspring = breed(clock, plant, partner ?? plant, 'buzz');
+  const next = placePlant(markReproduced(state, instanceId, ...(partner ? [partner.instanceId] : [])), emptySpotId, offspring);
+
+  if (partner) return notifyCrossOutcome(next, clock, offspring);
+  const [title, message] = selfMessage(plant.type);
+  return notify(next, clock, title, message + selfDepressionNote(next, offspring));
+};
+
+// --- WIND POLLINATION ---
+
+// Pollen keeps most of its strength for this many plots per point of wind strength
+const POLLEN_DRIFT_PER_STRENGTH = 1.5;
+
+const plotOffset = (state: GameState, fromId: number, toId: number): [number, number] => {
+  const from = plotPosition(state.gardenSize, fromId);
+  const to = plotPosition(state.gardenSize, toId);
+  return [to.col - from.col, to.row - from.row];
+};
+
+// How far downwind a plot lies from another, and how far off the wind's line
+const windOffset = (state: GameState, wind: Wind, fromId: number, toId: number) => {
+  const [dx, dy] = plotOffset(state, fromId, toId);
+  const [ux, uy] = windVector(wind);
+  return { along: dx * ux + dy * uy, across: Math.abs(dx * uy - dy * ux), distance: Math.hypot(dx, dy) };
+};
+
+// Chance that pollen shed at one plot reaches another: only downwind, inside a
+// cone that widens as it travels, and fading with distance
+const pollenReach = (state: GameState, wind: Wind, fromId: number, toId: number) => {
+  const { along, across, distance } = windOffset(state, wind, fromId, toId);
+  if (along <= 0 || across > along) return 0;
+  return Math.exp(-(distance - 1) / (wind.strength * POLLEN_DRIFT_PER_STRENGTH));
+};
+
+// Seeds fall on the nearest free plot downwind of the mother, or the nearest one at all
+const downwindSpot = (state: GameState, wind: Wind, motherId: number, taken: number[]): number | null => {
+  const spots = state.garden
+    .filter(plot => isFreePlot(plot) && !taken.includes(plot.id))
+    .map(plot => ({ plotId: plot.id, ...windOffset(state, wind, motherId, plot.id) }))
+    .sort((a, b) => Number(b.along > 0) - Number(a.along > 0) || a.distance - b.distance);
+  return spots[0]?.plotId ?? null;
+};
+
+// Enough grown plants of some wind-pollinated species for the wind to pair them
+export const hasWindPartners = (state: GameState) =>
+  speciesWithSyndrome('wind').some(type => floweringOfType(state, type).length >= 2);
+
+// Every receptive plant may catch pollen from the plants of its species upwind;
+// the closer and more directly upwind they are, the likelier it is.
+export const checkWindPollination = (state: GameState, clock: Clock): GameState => {
+  const { wind } = state;
+  if (!wind) return state;
+
+  let next = state;
+  const births: PendingBirth[] = [];
+  const newConnections: Connection[] = [];
+
+  for (const type of speciesWithSyndrome('wind')) {
+    const grown = floweringOfType(state, type);
+
+    for (const mother of grown) {
+      if (hasReproduced(next, mother.plant!.instanceId)) continue;
+
+      const donors = grown
+        .filter(donor => donor !== mother)
+        .map(donor => ({ item: donor, weight: pollenReach(state, wind, donor.id, mother.id) }))
+        .filter(({ weight }) => weight > 0);
+      const missChance = donors.reduce((chance, { weight }) => chance * (1 - weight), 1);
+      if (donors.length === 0 || clock.random() < missChance) continue;
+
+      const spotId = downwindSpot(state, wind, mother.id, births.map(birth => birth.plotId));
+      if (spotId === null) break;
+
+      const father = pickWeighted(donors, clock);
+      next = markReproduced(next, mother.plant!.instanceId);
+      newConnections.push({ from: father.id, to: mother.id, type });
+      births.push({ plotId: spotId, plant: breed(clock, mother.plant!, father.plant!, 'wind') });
+    }
+  }
+
+  if (newConnections.length === 0) return state;
+
+  next = { ...next, isPollinating: true, activeConnections: [...next.activeConnections, ...newConnections] };
+  return schedule(next, DELAYS.windPollination, { kind: 'windPollination', births });
+};
+
+export const handleWindPollination = (state: GameState, clock: Clock, births: PendingBirth[]): GameState => {
+  let next: GameState = removeConnections({ ...state, isPollinating: false }, conn => syndromeOf(conn.type) === 'wind');
+
+  for (const birth of births) {
+    next = notifyCrossOutcome(placePlant(next, birth.plotId, birth.plant), clock, birth.plant);
+  }
+  return next;
+};
+
+// --- MANUAL POLLINATION ---
+
+// The pollen on the brush is thrown away once its plant is gone or past flowering
+export const reconcilePollenSack = (state: GameState): GameState => {
+  const sack = state.pollenSack;
+  if (!sack) return state;
+  const source = state.garden[sack.sourcePlotId]?.plant;
+  return source?.instanceId === sack.plant.instanceId && source.stage === 'flowering' ? state : { ...state, pollenSack: null };
+};
+
+export const handleManualPollination = (state: GameState, clock: Clock, plotId: number): GameState => {
+  const plot = state.garden[plotId];
+
+  // 1. COLLECT POLLEN
+  if (!state.pollenSack) {
+    if (plot.plant && plot.plant.stage !== 'seedling' && plot.plant.stage !== 'flowering') {
+      return notify(state, clock, `Fora da Floração ${plot.plant.phenotype}`, `Esta planta está na fase "${STAGE_NAMES[plot.plant.stage]}". Só há pólen enquanto ela está em flor.`);
+    }
+    if (plot.plant?.stage === 'flowering' && syndromeOf(plot.plant.type) === 'buzz') {
+      return notify(state, clock, `Pólen Preso ${plot.plant.phenotype}`, "As anteras desta flor só se abrem por um pequeno poro quando vibradas. O pincel não consegue tirar o pólen: só a vibração de uma mamangava funciona.");
+    }
+    if (plot.plant?.stage === 'flowering' && isHeatwave(state.weather)) {
+      return notify(state, clock, `Pólen Estéril ${plot.plant.phenotype}`, "Com a onda de calor o pólen perdeu a viabilidade e as flores caíram. Espere um dia mais fresco.");
+    }
+    if (plot.plant?.stage === 'flowering' && !isInBloom(plot.plant.type, state.day)) {
+      return notify(state, clock, `Sem Flores ${plot.plant.phenotype}`, `${bloomWindowText(plot.plant.type)}. Fora da época de floração não há pólen para coletar.`);
+    }
+    if (plot.plant?.stage === 'flowering' && isWilted(plot.plant)) {
+      return notify(state, clock, `Flores Murchas ${plot.plant.phenotype}`, "A planta murchou e fechou as flores. Acerte a umidade do solo e espere ela se recuperar para coletar o pólen.");
+    }
+    if (isFlowering(state, plot.plant)) {
+      return { ...state, pollenSack: { plant: plot.plant, sourcePlotId: plot.id } };
+    }
+    return state;
+  }
+
+  // 2. APPLY POLLEN
+  const sourcePlant = state.pollenSack.plant;
+
+  // The pollen is only good while the plant it came from still flowers where it was collected
+  const source = state.garden[state.pollenSack.sourcePlotId]?.plant;
+  if (source?.instanceId !== sourcePlant.instanceId || !isFlowering(state, source)) {
+    return notify(
+      { ...state, pollenSack: null },
+      clock,
+      `Pólen Perdido ${sourcePlant.phenotype}`,
+      "A planta de onde o pólen veio não está mais com as flores abertas: saiu da horta, murchou, passou da floração ou perdeu as flores no calor. O pólen foi descartado; colete de novo numa flor aberta.",
+    );
+  }
+
+  // CASE A: Self-Pollination
+  if (state.pollenSack.sourcePlotId === plotId) {
+    if (getSpecies(sourcePlant.type).pollination.selfIncompatible) {
+      return notify(state, clock, `Polinização Inválida ${sourcePlant.phenotype}`, "Autoincompatibilidade gametofítica: impede que o próprio pólen fecunde as flores da mesma planta ou de plantas geneticamente muito próximas.");
+    }
+    const emptySpotId = findEmptySpot(state, plotId);
+    if (emptySpotId === null) {
+      return notify(state, clock, "Sem Espaço!", "Não há espaço para um novo broto.");
+    }
+    const offspring = breed(clock, sourcePlant, sourcePlant, 'manual');
+    const next = placePlant({ ...state, pollenSack: null }, emptySpotId, offspring);
+    const note = selfDepressionNote(next, offspring);
+    return notify(next, clock, "Autofecundação Manual 🖌️", `${sourcePlant.type} foi autofecundada com sucesso.${note}`);
+  }
+
+  // CASE B: Cross-Pollination
+  if (plot.plant && plot.plant.stage !== 'seedling' && plot.plant.stage !== 'flowering' && plot.plant.type === sourcePlant.type) {
+    return notify(state, clock, `Fora da Floração ${plot.plant.phenotype}`, `Esta planta está na fase "${STAGE_NAMES[plot.plant.stage]}". Sem flores abertas, o pólen não tem onde germinar.`);
+  }
+  if (plot.plant && plot.plant.stage === 'flowering' && plot.plant.type === sourcePlant.type) {
+    const targetPlant: PlantState = plot.plant;
+
+    if (!isInBloom(targetPlant.type, state.day)) {
+      return notify(state, clock, `Sem Flores ${targetPlant.phenotype}`, `${bloomWindowText(targetPlant.type)}. Sem flores abertas, o pólen não tem onde germinar.`);
+    }
+    if (!isFlowering(state, targetPlant)) {
+      return notify(state, clock, `Flores Fechadas ${plot.plant.phenotype}`, "Esta planta está murcha ou perdeu as flores no calor. Sem flores abertas, o pólen não tem onde germinar.");
+    }
+
+    if (getSpecies(sourcePlant.type).pollination.selfIncompatible && areParentAndChild(sourcePlant, targetPlant)) {
+      return notify({ ...state, pollenSack: null }, clock, `Polinização Inválida (${sourcePlant.type}) ${sourcePlant.phenotype}`, "Autoincompatibilidade gametofítica: A polinização manual entre plantas parentes é evitada.");
+    }
+
+    const emptySpotId = findEmptySpot(state, plotId);
+    if (emptySpotId === null) {
+      return notify(state, clock, "Sem Espaço!", "Não há espaço para um novo broto.");
+    }
+
+    // The flower that receives the pollen is the mother, and keeps the seed
+    const offspring = breed(clock, targetPlant, sourcePlant, 'manual');
+    const next = placePlant({ ...state, pollenSack: null }, emptySpotId, offspring);
+
+    const explanation = explainOffspring(next, offspring);
+    if (explanation) return notify(next, clock, ...explanation);
+    return notify(next, clock, "Polinização Cruzada Manual 🖌️", `${sourcePlant.type} foi polinizado com sucesso!`);
+  }
+
+  return notify(state, clock, "Alvo Inválido", "Você só pode polinizar plantas em flor da mesma espécie.");
+};
@@ -0,0 +1,264 @@
+import { isFlowering } from './calendar';
+import { centerPlotId, plotDistance, updatePlant } from './garden';
+import { createHive, foragingEfficiency, hiveBeeCount, isColonyAlive, liveHiveDay, SICK_HEALTH } from './hive';
+import { buy, HIVE_PRICE } from './market';
+import { notify } from './notifications';
+import { exposureOn } from './pesticide';
+import { makeId } from './plants';
+import { deliverPollen } from './pollination';
+import { pickWeighted } from './random';
+import { DELAYS, hasTimer, schedule } from './scheduler';
+import { getSpecies, syndromeOf } from './species';
+import type { Clock, FlowerColor, FlowerShape, GameState, PlantState, PollinatorAgent, PollinatorKind } from './types';
+
+export interface PollinatorProfile {
+  name: string;
+  plural: string;
+  emoji: string;
+  range: number;          // How far from home it flies, in plots (diagonals count as one)
+  isNocturnal: boolean;   // Out at night instead of by day
+  shapes: FlowerShape[];  // Flowers its body or beak can work
+  colors: FlowerColor[];  // Colours it sees and looks for
+  pollenTransfer: number; // Chance a visit leaves the pollen it carries on the stigma
+  lethalExposure: number; // Average residue on the flowers it works that kills it
+}
+
+// Each kind matches a pollination syndrome: the flower's colour, shape and
+// opening hours decide who comes, so a varied garden feeds varied visitors.
+export const POLLINATORS: Record<PollinatorKind, PollinatorProfile> = {
+  // Bees don't see red, and land on open flowers or flower heads
+  bee: { name: 'Abelha', plural: 'Abelhas', emoji: '🐝', range: 2, isNocturnal: false, shapes: ['open', 'cluster'], colors: ['yellow', 'white', 'purple'], pollenTransfer: 1, lethalExposure: 30 },
+  // Long legs keep them off the anthers, and their caterpillars die from very little residue
+  butterfly: { name: 'Borboleta', plural: 'Borboletas', emoji: '🦋', range: 3, isNocturnal: false, shapes: ['cluster', 'tubular'], colors: ['yellow', 'red', 'purple'], pollenTransfer: 0.4, lethalExposure: 15 },
+  // A long beak for tubular flowers, drawn to red, which insects mostly ignore
+  hummingbird: { name: 'Beija-flor', plural: 'Beija-flores', emoji: '🐦', range: 4, isNocturnal: false, shapes: ['tubular'], colors: ['red'], pollenTransfer: 0.9, lethalExposure: 60 },
+  // Big pale flowers that open at night and are easy to find in the dark
+  bat: { name: 'Morcego', plural: 'Morcegos', emoji: '🦇', range: 4, isNocturnal: true, shapes: ['open', 'tubular'], colors: ['white'], pollenTransfer: 0.9, lethalExposure: 45 },
+};
+
+export const POLLINATOR_KINDS = Object.keys(POLLINATORS) as PollinatorKind[];
+
+export const BEE_FORAGING_RANGE = POLLINATORS.bee.range;
+// Wild visitors of each kind that settle in the garden at once
+const MAX_WILD_VISITORS = 3;
+// Flowers within reach of the hive that give the colony all the food it needs
+const FLOWERS_NEEDED = 4;
+// Visited plots kept for drawing a pollinator's trail
+const PATH_LENGTH = 4;
+
+// Relative chance of flying to a plot
+const FLOWER_WEIGHT = 3;
+const ATTRACTOR_WEIGHT = 6;
+
+const isActive = (state: GameState, kind: PollinatorKind) => POLLINATORS[kind].isNocturnal === state.isNight;
+
+// Day flowers close at night and night flowers stay shut by day
+export const isFlowerOpen = (state: GameState, plant: PlantState | null): plant is PlantState =>
+  isFlowering(state, plant) && !!getSpecies(plant.type).flower && !!getSpecies(plant.type).flower!.opensAtNight === state.isNight;
+
+// Open flowers of the right shape and colour that need animals or reward a bee's visit
+const feedsOn = (state: GameState, kind: PollinatorKind, plant: PlantState | null): plant is PlantState => {
+  if (!isActive(state, kind) || !isFlowerOpen(state, plant)) return false;
+  const { flower, beeYieldBonus } = getSpecies(plant.type);
+  const { shapes, colors } = POLLINATORS[kind];
+  if (!shapes.includes(flower!.shape) || !colors.includes(flower!.color)) return false;
+  return syndromeOf(plant.type) === 'animal' || (kind === 'bee' && !!beeYieldBonus);
+};
+
+const isAttractor = (state: GameState, kind: PollinatorKind, plant: PlantState | null): plant is PlantState =>
+  feedsOn(state, kind, plant) && !!getSpecies(plant.type).attracts?.includes(kind);
+
+const flowerWeight = (state: GameState, kind: PollinatorKind, plant: PlantState | null) => {
+  if (!feedsOn(state, kind, plant)) return 0;
+  return isAttractor(state, kind, plant) ? ATTRACTOR_WEIGHT : FLOWER_WEIGHT;
+};
+
+const attractorPlotIds = (state: GameState, kind: PollinatorKind) =>
+  state.garden.filter(plot => isAttractor(state, kind, plot.plant)).map(plot => plot.id);
+
+const isInRange = (state: GameState, agent: PollinatorAgent, plotId: number) =>
+  plotDistance(state.gardenSize, agent.homePlotId, plotId) <= POLLINATORS[agent.kind].range;
+
+// --- SWARM ---
+
+interface Nest {
+  kind: PollinatorKind;
+  homePlotId: number;
+  flying: number;
+  poisoned: number; // Just killed by residue
+}
+
+const flowersInReach = (state: GameState, kind: PollinatorKind, homePlotId: number) =>
+  state.garden.filter(plot => feedsOn(state, kind, plot.plant) && plotDistance(state.gardenSize, homePlotId, plot.id) <= POLLINATORS[kind].range);
+
+// Pollinators pick up residue from the flowers they work
+const pesticideExposure = (state: GameState, kind: PollinatorKind, homePlotId: number) =>
+  exposureOn(state, flowersInReach(state, kind, homePlotId).map(plot => plot.id));
+
+// A wild visitor has no colony to fall back on: enough residue kills it outright
+const wildNest = (state: GameState, kind: PollinatorKind, homePlotId: number): Nest => {
+  const flying = Math.round(Math.max(0, 1 - pesticideExposure(state, kind, homePlotId) / POLLINATORS[kind].lethalExposure));
+  return { kind, homePlotId, flying, poisoned: 1 - flying };
+};
+
+// The kept hive sits in the middle of the garden, with as many bees out as its
+// colony can spare; wild visitors settle by the flowers that attracted them
+const nests = (state: GameState): Nest[] => [
+  ...(state.manualBeeMode && isActive(state, 'bee')
+    ? [{ kind: 'bee' as const, homePlotId: centerPlotId(state.gardenSize), flying: hiveBeeCount(state.hive), poisoned: 0 }]
+    : []),
+  ...POLLINATOR_KINDS.flatMap(kind => attractorPlotIds(state, kind).slice(0, MAX_WILD_VISITORS).map(homePlotId => wildNest(state, kind, homePlotId))),
+];
+
+const isHiveBee = (state: GameState, agent: PollinatorAgent) =>
+  agent.kind === 'bee' && state.manualBeeMode && agent.homePlotId === centerPlotId(state.gardenSize);
+
+const spawnPollinator = (clock: Clock, kind: PollinatorKind, homePlotId: number): PollinatorAgent => ({
+  id: makeId(clock),
+  kind,
+  homePlotId,
+  plotId: homePlotId,
+  path: [homePlotId],
+  pollen: null,
+});
+
+// Keeps the pollinators whose home is still there and brings in the missing
+// ones. Those the residue kills fall where they are; the others just leave,
+// as day visitors do at nightfall and bats at dawn.
+const reconcileSwarm = (state: GameState, clock: Clock): GameState => {
+  const available = state.pollinators.filter(agent => !agent.isDying);
+  const takeAgent = ({ kind, homePlotId }: Nest) => {
+    const index = available.findIndex(agent => agent.kind === kind && agent.homePlotId === homePlotId);
+    return index >= 0 ? available.splice(index, 1)[0] : null;
+  };
+
+  const living = nests(state).flatMap(nest => Array<Nest>(nest.flying).fill(nest));
+  const poisoned = nests(state).flatMap(nest => Array<Nest>(nest.poisoned).fill(nest));
+  const flying = living.map(nest => takeAgent(nest) ?? spawnPollinator(clock, nest.kind, nest.homePlotId));
+  const dying = poisoned.flatMap(nest => takeAgent(nest) ?? []).map(agent => ({ ...agent, isDying: true }));
+
+  const next = [...flying, ...state.pollinators.filter(agent => agent.isDying), ...dying];
+  const isUnchanged = next.length === state.pollinators.length && next.every(agent => state.pollinators.includes(agent));
+  if (isUnchanged) return state;
+  const withPollinators = { ...state, pollinators: next };
+  return dying.length > 0 ? schedule(withPollinators, DELAYS.pollinatorsDying, { kind: 'pollinatorsDied' }) : withPollinators;
+};
+
+const canForage = (state: GameState) =>
+  state.pollinators.some(agent => !agent.isDying && state.garden.some(plot => feedsOn(state, agent.kind, plot.plant) && isInRange(state, agent, plot.id)));
+
+// Brings the pollinators in line with the garden: they show up for the flowers
+// that attract them or when the player keeps a hive, only at their time of day,
+// and pesticide residue kills some of them.
+export const reconcilePollinators = (state: GameState, clock: Clock): GameState => {
+  const next = reconcileSwarm(state, clock);
+
+  // They only keep flying while there are flowers within their reach
+  if (!hasTimer(next, event => event.kind === 'pollinatorFlight') && canForage(next)) {
+    return schedule(next, DELAYS.pollinatorFlight, { kind: 'pollinatorFlight' });
+  }
+  return next;
+};
+
+// --- FORAGING ---
+
+const pickNextPlot = (state: GameState, clock: Clock, agent: PollinatorAgent): number => {
+  const candidates = state.garden
+    .filter(plot => plot.id !== agent.plotId && isInRange(state, agent, plot.id))
+    .map(plot => ({ item: plot.id, weight: flowerWeight(state, agent.kind, plot.plant) }))
+    .filter(candidate => candidate.weight > 0);
+  return candidates.length === 0 ? agent.homePlotId : pickWeighted(candidates, clock);
+};
+
+// The first bee visit to a species that rewards it gets an explanation
+const rewardVisit = (state: GameState, clock: Clock, plotId: number, plant: PlantState): GameState => {
+  const isFirstOfType = !state.garden.some(plot => plot.plant?.type === plant.type && plot.plant.isBeeVisited);
+  const next = updatePlant(state, plotId, p => ({ ...p, isBeeVisited: true }));
+  if (!isFirstOfType) return next;
+  return notify(next, clock, ...(getSpecies(plant.type).messages.beeVisit ?? [
+    `Abelhas em ${plant.type} 🐝`,
+    "As abelhas visitaram as flores. Mais flores fecundadas significam uma colheita maior.",
+  ]));
+};
+
+// Leaves the pollen it carries, if some of it rubs off, and dusts itself with this flower's
+const visitFlower = (state: GameState, clock: Clock, agent: PollinatorAgent): [GameState, PollinatorAgent] => {
+  const plant = state.garden[agent.plotId]?.plant ?? null;
+  if (!feedsOn(state, agent.kind, plant)) return [state, agent];
+
+  let next = state;
+  if (agent.kind === 'bee' && getSpecies(plant.type).beeYieldBonus && !plant.isBeeVisited) next = rewardVisit(next, clock, agent.plotId, plant);
+  if (syndromeOf(plant.type) !== 'animal') return [next, agent];
+
+  if (agent.pollen && clock.random() < POLLINATORS[agent.kind].pollenTransfer) {
+    next = deliverPollen(next, agent.plotId, agent.pollen, agent.kind) ?? next;
+  }
+  return [next, { ...agent, pollen: { plant, sourcePlotId: agent.plotId } }];
+};
+
+export const handlePollinatorFlight = (state: GameState, clock: Clock): GameState => {
+  if (state.pollinators.length === 0) return state;
+
+  let next = state;
+  const pollinators = state.pollinators.map(agent => {
+    if (agent.isDying) return agent;
+    // A sick colony's bees get lost and come home empty-handed
+    if (isHiveBee(next, agent) && clock.random() >= foragingEfficiency(next.hive)) {
+      return { ...agent, plotId: agent.homePlotId, path: [...agent.path, agent.homePlotId].slice(-PATH_LENGTH), pollen: null };
+    }
+    const plotId = pickNextPlot(next, clock, agent);
+    const [afterVisit, visitor] = visitFlower(next, clock, { ...agent, plotId, path: [...agent.path, plotId].slice(-PATH_LENGTH) });
+    next = afterVisit;
+    return visitor;
+  });
+  return { ...next, pollinators };
+};
+
+const countOf = (kind: PollinatorKind, count: number) =>
+  `${count} ${(count === 1 ? POLLINATORS[kind].name : POLLINATORS[kind].plural).toLowerCase()}`;
+
+// Poisoned pollinators have fallen; they are not replaced while the residue lasts
+export const handlePollinatorsDied = (state: GameState, clock: Clock): GameState => {
+  const dead = state.pollinators.filter(agent => agent.isDying);
+  if (dead.length === 0) return state;
+  const victims = POLLINATOR_KINDS
+    .map(kind => [kind, dead.filter(agent => agent.kind === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => countOf(kind, count));
+  const list = victims.length === 1 ? victims[0] : `${victims.slice(0, -1).join(', ')} e ${victims[victims.length - 1]}`;
+  return notify(
+    { ...state, pollinators: state.pollinators.filter(agent => !agent.isDying) },
+    clock,
+    "Alerta Ambiental ⚠️",
+    `${dead.length === 1 ? 'Morreu' : 'Morreram'} ${list} ao visitar flores com agrotóxico. Quanto mais resíduo nas flores, mais polinizadores morrem, e cada um tolera uma dose diferente: as borboletas são as mais sensíveis. O uso de agrotóxicos afeta os polinizadores causando mortalidade, alterando seu comportamento e prejudicando as colônias.`
+  );
+};
+
+// --- HIVE ---
+
+// A new garden has no colony yet; one is bought when the hive is first set up,
+// and again when the last one collapsed
+export const toggleHive = (state: GameState, clock: Clock): GameState => {
+  if (state.manualBeeMode) return { ...state, manualBeeMode: false };
+  if (isColonyAlive(state.hive)) return { ...state, manualBeeMode: true };
+  return buy(state, clock, HIVE_PRICE, 'Uma colônia de abelhas', paid => ({ ...paid, manualBeeMode: true, hive: createHive() }));
+};
+
+// Runs at dawn, when the bees are out again
+export const handleHiveDay = (state: GameState, clock: Clock): GameState => {
+  const { hive } = state;
+  if (!state.manualBeeMode || !isColonyAlive(hive)) return state;
+
+  const home = centerPlotId(state.gardenSize);
+  const forage = Math.min(1, flowersInReach(state, 'bee', home).length / FLOWERS_NEEDED);
+  const today = liveHiveDay(hive, state.day, pesticideExposure(state, 'bee', home), forage);
+  const next = { ...state, hive: today };
+
+  if (!isColonyAlive(today)) {
+    return notify(next, clock, "Colônia Perdida 💀🐝", "A colmeia ficou vazia. Abelhas doentes se perdem no caminho de volta, trazem menos alimento e a rainha para de botar: a colônia encolheu até acabar. Para recomeçar, instale uma colmeia nova longe dos agrotóxicos.");
+  }
+  if (today.health < SICK_HEALTH && hive.health >= SICK_HEALTH) {
+    return notify(next, clock, "Colmeia Doente 🐝⚠️", "O resíduo de agrotóxico nas flores não matou as abelhas na hora, mas elas ficam desorientadas, se perdem no caminho de volta e trazem menos alimento. Se continuar, a colônia vai encolher. Sem agrotóxico e com flores por perto ela se recupera, mas leva dias.");
+  }
+  return next;
+};
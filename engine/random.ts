@@ -0,0 +1,65 @@
+import type { Clock, GameState } from './types';
+
+// Every random draw in a game comes from its own seeded generator (mulberry32),
+// so the same seed and the same clicks replay the same weather, genes and bees.
+
+export const nextRandom = (rngState: number): [value: number, next: number] => {
+  const next = (rngState + 0x6d2b79f5) | 0;
+  let t = Math.imul(next ^ (next >>> 15), next | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
+// Numbers are used as they are; any other text is hashed (FNV-1a), so a class can use a name
+export const seedFromText = (text: string): number => {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  let hash = 0x811c9dc5;
+  for (const char of trimmed) hash = Math.imul(hash ^ char.codePointAt(0)!, 0x01000193);
+  return hash >>> 0;
+};
+
+export const randomSeed = (clock: Clock) => Math.floor(clock.random() * 0x100000000);
+
+// Streams drawn apart from the game's generator, so they never replay its numbers
+export const LAYOUT_STREAM = 1;
+export const WEATHER_STREAM = 2;
+
+// A starting point for stream `salt` of a seed, far from the seed's own stream
+export const mixSeed = (seed: number, salt: number): number =>
+  Math.floor(nextRandom((seed ^ Math.imul(salt, 0x9e3779b1)) | 0)[0] * 0x100000000);
+
+// A clock of its own that draws from a fixed starting point; nothing else moves it
+export const streamClock = (rngState: number): Clock => {
+  let state = rngState;
+  return {
+    wallTime: 0,
+    random: () => {
+      const [value, next] = nextRandom(state);
+      state = next;
+      return value;
+    },
+  };
+};
+
+// Runs `update` with a clock that draws from the game's generator, then keeps
+// the generator where it stopped. The wall time still comes from the caller.
+export const withGameRandom = (state: GameState, clock: Clock, update: (clock: Clock) => GameState): GameState => {
+  let rngState = state.rngState;
+  const random = () => {
+    const [value, next] = nextRandom(rngState);
+    rngState = next;
+    return value;
+  };
+  const next = update({ ...clock, random });
+  return next === state ? state : { ...next, rngState };
+};
+
+export const pickWeighted = <T,>(items: { item: T; weight: number }[], clock: Clock): T => {
+  let roll = clock.random() * items.reduce((sum, { weight }) => sum + weight, 0);
+  for (const { item, weight } of items) {
+    roll -= weight;
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1].item;
+};
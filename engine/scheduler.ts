@@ -0,0 +1,76 @@
+import type { GameSpeed, GameState, ScheduledEvent, SchedulerState, TimedEvent } from './types';
+
+// One tick is 100 ms of game time at 1× speed
+export const TICK_MS = 100;
+
+export const GAME_SPEEDS: GameSpeed[] = [1, 2, 5];
+
+// Every delay in the game, in ticks; species timings live in species.json
+export const DELAYS = {
+  bacterium: 60,
+  autogamyEffect: 15,
+  lonePlantHint: 300,
+  pollinatorFlight: 10,
+  animalPollination: 20,
+  windPollination: 35,
+  windNotice: 10,
+  pollinatorsDying: 35,
+  greenManure: 35,
+  bloomCheck: 100,
+  soilWater: 100,
+  pestCheck: 150,
+} as const;
+
+export const createScheduler = (): SchedulerState => ({
+  tick: 0,
+  speed: 1,
+  paused: false,
+  timers: [],
+  nextTimerId: 0,
+});
+
+const withScheduler = (state: GameState, update: Partial<SchedulerState>): GameState => ({
+  ...state,
+  scheduler: { ...state.scheduler, ...update },
+});
+
+export const schedule = (state: GameState, delay: number, event: TimedEvent): GameState => {
+  const { tick, timers, nextTimerId } = state.scheduler;
+  return withScheduler(state, {
+    timers: [...timers, { id: nextTimerId, at: tick + delay, event }],
+    nextTimerId: nextTimerId + 1,
+  });
+};
+
+export const hasTimer = (state: GameState, predicate: (event: TimedEvent) => boolean) =>
+  state.scheduler.timers.some(timer => predicate(timer.event));
+
+export const cancelTimers = (state: GameState, predicate: (event: TimedEvent) => boolean): GameState =>
+  hasTimer(state, predicate)
+    ? withScheduler(state, { timers: state.scheduler.timers.filter(timer => !predicate(timer.event)) })
+    : state;
+
+const earliestTimer = (timers: ScheduledEvent[]): ScheduledEvent | null =>
+  timers.reduce<ScheduledEvent | null>((earliest, timer) => (!earliest || timer.at < earliest.at ? timer : earliest), null);
+
+export const nextEventTick = (state: GameState): number | null =>
+  earliestTimer(state.scheduler.timers)?.at ?? null;
+
+// Removes the earliest timer due by `until` and moves time to the moment it fires
+export const takeDueTimer = (state: GameState, until: number): [ScheduledEvent | null, GameState] => {
+  const due = earliestTimer(state.scheduler.timers);
+  if (!due || due.at > until) return [null, state];
+  return [due, withScheduler(state, {
+    tick: Math.max(state.scheduler.tick, due.at),
+    timers: state.scheduler.timers.filter(timer => timer !== due),
+  })];
+};
+
+export const setTick = (state: GameState, tick: number): GameState =>
+  state.scheduler.tick === tick ? state : withScheduler(state, { tick });
+
+export const togglePause = (state: GameState): GameState =>
+  withScheduler(state, { paused: !state.scheduler.paused });
+
+export const setSpeed = (state: GameState, speed: GameSpeed): GameState =>
+  state.scheduler.speed === speed ? state : withScheduler(state, { speed });
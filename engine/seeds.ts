@@ -0,0 +1,53 @@
+import { notify } from './notifications';
+import { childrenOf } from './pedigree';
+import { breed, makeId } from './plants';
+import { pickWeighted } from './random';
+import { getSpecies } from './species';
+import type { Clock, GameState, PlantSize, PlantState, SeedCross, SeedLot, SelectedTool } from './types';
+
+// Seeds a harvested plant leaves for the bank; bigger fruit and pods hold more
+const SEEDS_PER_HARVEST: Record<PlantSize, number> = { small: 2, normal: 3, large: 4 };
+
+export const isSeedLotTool = (tool: SelectedTool): tool is { seedLotId: string } => typeof tool === 'object' && tool !== null;
+
+// The pollinations the pedigree recorded with this plant as the mother; pollen it
+// only gave away set seed on other plants. One that was never pollinated only
+// sets seed if its species can fertilize itself.
+const seedCrosses = (state: GameState, plant: PlantState): SeedCross[] => {
+  const crosses = childrenOf(state.pedigree, plant.instanceId)
+    .filter(child => child.parentIds[0] === plant.instanceId && child.pollination && child.pollination !== 'clone')
+    .map(child => ({ partnerId: child.parentIds[1] ?? plant.instanceId, pollination: child.pollination! }));
+  if (crosses.length > 0) return crosses;
+  const { needsPartner, selfIncompatible } = getSpecies(plant.type).pollination;
+  return needsPartner || selfIncompatible ? [] : [{ partnerId: plant.instanceId, pollination: 'self' }];
+};
+
+// Harvesting keeps the seeds of the plant, unless it is grown from cuttings
+export const saveSeeds = (state: GameState, clock: Clock, plant: PlantState, size: PlantSize): GameState => {
+  if (getSpecies(plant.type).propagatesByCuttings) return state;
+  const crosses = seedCrosses(state, plant);
+  if (crosses.length === 0) {
+    return notify(
+      state,
+      clock,
+      `Sem Sementes (${plant.type}) 🫙`,
+      `Esta planta nunca foi polinizada, então os frutos não formaram sementes para guardar. ${plant.type} precisa do pólen de outra planta da mesma espécie.`,
+    );
+  }
+  const lot: SeedLot = { id: makeId(clock), type: plant.type, motherId: plant.instanceId, crosses, count: SEEDS_PER_HARVEST[size], harvestedOn: state.day };
+  return { ...state, seedBank: [...state.seedBank, lot] };
+};
+
+// Each seed comes from one of the recorded crosses, so a lot from a plant
+// visited by many partners sows half-siblings
+export const takeSeed = (state: GameState, clock: Clock, seedLotId: string): [GameState, PlantState] | null => {
+  const lot = state.seedBank.find(l => l.id === seedLotId);
+  const mother = lot && state.pedigree[lot.motherId];
+  if (!lot || !mother) return null;
+  const { partnerId, pollination } = pickWeighted(lot.crosses.map(cross => ({ item: cross, weight: 1 })), clock);
+  const seed = breed(clock, mother, state.pedigree[partnerId] ?? mother, pollination);
+  const seedBank = lot.count > 1
+    ? state.seedBank.map(l => (l.id === lot.id ? { ...l, count: l.count - 1 } : l))
+    : state.seedBank.filter(l => l.id !== lot.id);
+  return [{ ...state, seedBank }, seed];
+};
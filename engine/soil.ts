@@ -0,0 +1,111 @@
+import { notify } from './notifications';
+import { getSpecies } from './species';
+import type { Clock, GameState, Nutrient, PlantSize, PlantType, PlotState, SoilState } from './types';
+import { isRaining } from './weather';
+
+export const MAX_NUTRIENT = 100;
+export const NUTRIENTS: Nutrient[] = ['nitrogen', 'phosphorus', 'potassium'];
+export const NUTRIENT_NAMES: Record<Nutrient, string> = { nitrogen: 'nitrogênio', phosphorus: 'fósforo', potassium: 'potássio' };
+export const NUTRIENT_SYMBOLS: Record<Nutrient, string> = { nitrogen: 'N', phosphorus: 'P', potassium: 'K' };
+
+// Above this much organic matter the soil counts as organically managed
+export const RICH_ORGANIC_MATTER = 40;
+// Harvests kept per plot to tell whether the same crop keeps coming back
+const CROP_HISTORY_LENGTH = 4;
+// Each harvest of the same crop in a row makes its pests and diseases stronger
+const ROTATION_PENALTY = 0.5;
+
+// Salt above this level is reported: roots start to struggle for water
+export const SALTY_SOIL = 40;
+
+// What a plot gains from each source, on the same 0–100 scale as the soil
+export const ORGANIC_FERTILIZER: Partial<SoilState> = { nitrogen: 15, phosphorus: 10, potassium: 10, organicMatter: 25 };
+// Fast and concentrated, but it feeds no soil life and leaves salts behind
+export const SYNTHETIC_FERTILIZER: Partial<SoilState> = { nitrogen: 35, phosphorus: 25, potassium: 25, salinity: 15 };
+export const NITROGEN_FIXATION: Partial<SoilState> = { nitrogen: 25 };
+export const GREEN_MANURE: Partial<SoilState> = { nitrogen: 15, organicMatter: 10 };
+// Each day soil life turns some organic matter into nitrogen roots can take up
+const MINERALIZATION = 1;
+// Salt a rainy day carries below the roots
+const LEACHING = 5;
+
+export const createSoil = (): SoilState => ({ nitrogen: 40, phosphorus: 40, potassium: 40, organicMatter: 20, salinity: 0 });
+
+const clampNutrient = (value: number) => Math.min(MAX_NUTRIENT, Math.max(0, value));
+
+const addToSoil = (soil: SoilState, amounts: Partial<SoilState>): SoilState => ({
+  nitrogen: clampNutrient(soil.nitrogen + (amounts.nitrogen ?? 0)),
+  phosphorus: clampNutrient(soil.phosphorus + (amounts.phosphorus ?? 0)),
+  potassium: clampNutrient(soil.potassium + (amounts.potassium ?? 0)),
+  organicMatter: clampNutrient(soil.organicMatter + (amounts.organicMatter ?? 0)),
+  salinity: clampNutrient(soil.salinity + (amounts.salinity ?? 0)),
+});
+
+export const enrichSoil = (state: GameState, plotIds: number[], amounts: Partial<SoilState>): GameState => ({
+  ...state,
+  garden: state.garden.map(plot => (plotIds.includes(plot.id) ? { ...plot, soil: addToSoil(plot.soil, amounts) } : plot)),
+});
+
+export const isOrganicSoil = (plot: PlotState) => plot.soil.organicMatter >= RICH_ORGANIC_MATTER;
+export const isSaltySoil = (plot: PlotState) => plot.soil.salinity >= SALTY_SOIL;
+
+// The first time a plot turns salty the player hears why
+export const applySyntheticFertilizer = (state: GameState, clock: Clock, plotId: number): GameState => {
+  const wasSalty = isSaltySoil(state.garden[plotId]);
+  const next = enrichSoil(state, [plotId], SYNTHETIC_FERTILIZER);
+  if (wasSalty || !isSaltySoil(next.garden[plotId])) return next;
+  return notify(next, clock, "Solo Salinizado 🧂", "O adubo químico deixa sais no solo. Com sal demais as raízes não conseguem puxar água nem nutrientes, e a colheita diminui mesmo com a terra adubada. A chuva lava o sal aos poucos; o adubo orgânico não salga a terra.");
+};
+
+// --- CROP ROTATION ---
+
+// Harvests of this crop in a row, counting back from the last one
+export const repeatedHarvests = (plot: PlotState, type: PlantType) => {
+  const index = [...plot.cropHistory].reverse().findIndex(crop => crop !== type);
+  return index === -1 ? plot.cropHistory.length : index;
+};
+
+// How well the soil feeds this crop: 1 covers its needs exactly. The scarcest
+// nutrient decides (Liebig's law of the minimum); repeating a crop and salt lower it.
+export const soilSupply = (plot: PlotState, type: PlantType) => {
+  const demand = getSpecies(type).nutrients;
+  const ratios = NUTRIENTS.filter(nutrient => demand[nutrient] > 0).map(nutrient => plot.soil[nutrient] / demand[nutrient]);
+  const saltUptake = 1 - plot.soil.salinity / MAX_NUTRIENT;
+  return (Math.min(...ratios) * saltUptake) / (1 + ROTATION_PENALTY * repeatedHarvests(plot, type));
+};
+
+export const limitingNutrient = (plot: PlotState, type: PlantType): Nutrient => {
+  const demand = getSpecies(type).nutrients;
+  return NUTRIENTS.reduce((worst, nutrient) =>
+    plot.soil[nutrient] * demand[worst] < plot.soil[worst] * demand[nutrient] ? nutrient : worst);
+};
+
+export const soilHarvestSize = (plot: PlotState): PlantSize => {
+  const supply = soilSupply(plot, plot.plant!.type);
+  if (supply < 1) return 'small';
+  if (supply < 2) return 'normal';
+  return 'large';
+};
+
+// A harvest takes away what the crop pulled from the soil and is remembered for rotation
+export const depleteSoil = (plot: PlotState, type: PlantType): PlotState => {
+  const demand = getSpecies(type).nutrients;
+  return {
+    ...plot,
+    soil: addToSoil(plot.soil, { nitrogen: -demand.nitrogen, phosphorus: -demand.phosphorus, potassium: -demand.potassium }),
+    cropHistory: [...plot.cropHistory, type].slice(-CROP_HISTORY_LENGTH),
+  };
+};
+
+// Once a day organic matter turns into nitrogen, and rain washes salt out
+export const updateSoil = (state: GameState): GameState => {
+  const leached = isRaining(state.weather) ? LEACHING : 0;
+  return {
+    ...state,
+    garden: state.garden.map(plot => {
+      const released = Math.min(MINERALIZATION, plot.soil.organicMatter);
+      if (plot.isDisabled || (released === 0 && (leached === 0 || plot.soil.salinity === 0))) return plot;
+      return { ...plot, soil: addToSoil(plot.soil, { nitrogen: released, organicMatter: -released, salinity: -leached }) };
+    }),
+  };
+};
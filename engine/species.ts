@@ -0,0 +1,95 @@
+import speciesData from './species.json';
+import type { CompanionEffect, FlowerColor, FlowerShape, Nutrient, NotificationText, PestType, PlantStage, PlantType, PollinationSyndrome, PollinatorKind, Season, SpeciesDefinition } from './types';
+
+// Crops live in species.json so that teachers can add local ones without
+// touching the code. The file is checked once, when the game loads.
+
+const SYNDROMES: PollinationSyndrome[] = ['animal', 'wind', 'buzz', 'self'];
+const SEASONS: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+const NUTRIENTS: Nutrient[] = ['nitrogen', 'phosphorus', 'potassium'];
+const PESTS: PestType[] = ['aphid', 'caterpillar'];
+const POLLINATORS: PollinatorKind[] = ['bee', 'butterfly', 'hummingbird', 'bat'];
+const FLOWER_COLORS: FlowerColor[] = ['yellow', 'white', 'red', 'purple'];
+const FLOWER_SHAPES: FlowerShape[] = ['open', 'cluster', 'tubular'];
+export const COMPANION_EFFECTS: CompanionEffect[] = ['climbs', 'shades', 'inhibits'];
+const LIFE_STAGES: Exclude<PlantStage, 'seedling'>[] = ['vegetative', 'flowering', 'fruiting', 'senescent'];
+
+const fail = (message: string): never => {
+  throw new Error(`species.json: ${message}`);
+};
+
+const isText = (value: unknown) => typeof value === 'string' && value.length > 0;
+const isTicks = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+const isPrice = (value: unknown) => typeof value === 'number' && value > 0;
+
+const isNotificationText = (value: unknown): value is NotificationText =>
+  Array.isArray(value) && value.length === 2 && value.every(isText);
+
+const checkSpecies = (species: SpeciesDefinition) => {
+  const { name, emoji, tooltip, connectionColor, growthTime, lifeCycle, nutrients, prices, pests, flower, attracts, beeYieldBonus, flowering, pollination, genetics, messages } = species;
+  if (!isText(name)) fail('toda espécie precisa de um nome.');
+  if (!isText(emoji) || !isText(tooltip) || !isText(connectionColor)) fail(`${name}: faltam emoji, dica ou cor da conexão.`);
+  if (!isTicks(growthTime)) fail(`${name}: growthTime deve ser um número inteiro de ticks.`);
+  if (!LIFE_STAGES.every(stage => isTicks(lifeCycle?.[stage]))) fail(`${name}: lifeCycle deve informar ${LIFE_STAGES.join(', ')} em ticks.`);
+  if (!NUTRIENTS.every(nutrient => Number.isInteger(nutrients?.[nutrient]) && nutrients[nutrient] >= 0)) {
+    fail(`${name}: nutrients deve informar ${NUTRIENTS.join(', ')} como inteiros.`);
+  }
+  if (!isPrice(prices?.seed) || !isPrice(prices?.produce)) fail(`${name}: prices deve informar seed e produce em reais.`);
+  if (pests && (!Array.isArray(pests) || !pests.every(pest => PESTS.includes(pest)))) fail(`${name}: as pragas devem ser ${PESTS.join(', ')}.`);
+
+  if (!SYNDROMES.includes(pollination?.syndrome)) fail(`${name}: síndrome de polinização deve ser ${SYNDROMES.join(', ')}.`);
+  if (pollination.syndrome === 'self' && pollination.needsPartner) fail(`${name}: uma espécie autógama não precisa de parceiro.`);
+  if (!pollination.needsPartner && !isTicks(pollination.selfFertilizationDelay)) {
+    fail(`${name}: sem parceiro obrigatório, informe selfFertilizationDelay em ticks.`);
+  }
+  // Self-fertilization is counted from the first flowers, so it has to come before they fade
+  if (pollination.selfFertilizationDelay !== undefined && pollination.selfFertilizationDelay >= lifeCycle.flowering) {
+    fail(`${name}: selfFertilizationDelay deve ser menor que lifeCycle.flowering.`);
+  }
+
+  if ((pollination.syndrome === 'animal' || beeYieldBonus) && !flower) fail(`${name}: espécies visitadas por animais precisam de flower.`);
+  if (flower && (!FLOWER_COLORS.includes(flower.color) || !FLOWER_SHAPES.includes(flower.shape))) {
+    fail(`${name}: a flor deve ter cor ${FLOWER_COLORS.join(', ')} e forma ${FLOWER_SHAPES.join(', ')}.`);
+  }
+  if (attracts && (!Array.isArray(attracts) || !attracts.every(kind => POLLINATORS.includes(kind)))) {
+    fail(`${name}: attracts deve listar ${POLLINATORS.join(', ')}.`);
+  }
+
+  if (flowering?.seasons && (!Array.isArray(flowering.seasons) || !flowering.seasons.every(season => SEASONS.includes(season)))) {
+    fail(`${name}: as estações de floração devem ser ${SEASONS.join(', ')}.`);
+  }
+  if (flowering?.minDayLength !== undefined && !(flowering.minDayLength > 0 && flowering.minDayLength < 24)) {
+    fail(`${name}: minDayLength deve ser um número de horas de luz.`);
+  }
+
+  if (!Number.isInteger(genetics?.recessiveLoad) || genetics.recessiveLoad < 0) fail(`${name}: recessiveLoad deve ser um inteiro.`);
+  if (!Array.isArray(genetics.fruitColors) || genetics.fruitColors.length !== 2) fail(`${name}: informe as duas cores de fruto.`);
+
+  for (const [key, text] of Object.entries(messages ?? {})) {
+    if (!isNotificationText(text)) fail(`${name}: a mensagem ${key} deve ser [título, texto].`);
+  }
+};
+
+export const SPECIES_LIST = speciesData as SpeciesDefinition[];
+SPECIES_LIST.forEach(checkSpecies);
+
+const SPECIES_BY_NAME = new Map(SPECIES_LIST.map(species => [species.name, species]));
+if (SPECIES_BY_NAME.size !== SPECIES_LIST.length) fail('há espécies com o mesmo nome.');
+
+// Companions name other species, so they are checked once all of them are known
+for (const { name, companions } of SPECIES_LIST) {
+  for (const [effect, types] of Object.entries(companions ?? {})) {
+    if (!COMPANION_EFFECTS.includes(effect as CompanionEffect)) fail(`${name}: os efeitos de companions devem ser ${COMPANION_EFFECTS.join(', ')}.`);
+    if (!Array.isArray(types) || !types.every(type => SPECIES_BY_NAME.has(type))) fail(`${name}: companions.${effect} deve listar espécies existentes.`);
+  }
+}
+
+export const isPlantType = (value: unknown): value is PlantType =>
+  typeof value === 'string' && SPECIES_BY_NAME.has(value);
+
+export const getSpecies = (type: PlantType): SpeciesDefinition => SPECIES_BY_NAME.get(type) ?? fail(`espécie desconhecida "${type}".`);
+
+export const syndromeOf = (type: PlantType) => getSpecies(type).pollination.syndrome;
+
+export const speciesWithSyndrome = (syndrome: PollinationSyndrome): PlantType[] =>
+  SPECIES_LIST.filter(species => species.pollination.syndrome === syndrome).map(species => species.name);
@@ -0,0 +1,298 @@
+import { dayLength, formatDayLength, isInBloom, SEASON_EMOJIS, SEASON_NAMES, seasonOf } from './calendar';
+import { DEFAULT_CLIMATE } from './climates';
+import { announceCompanions } from './companions';
+import { compostProduce, createCompost, matureCompost, spreadCompost } from './compost';
+import { createGarden, DEFAULT_GARDEN_SIZE, isFreePlot, leaveDebris, placePlant } from './garden';
+import { handleGrow, handleNextStage, handleNitrogenFixation, reconcileLifeCycles } from './growth';
+import { applyGreenManure, handleGreenManureApplied, harvestPlot, showGreenManure } from './harvest';
+import { emptyHive } from './hive';
+import { buy, createMarket, PESTICIDE_PRICE, seedPrice, sellProduce, updateDemand } from './market';
+import { markAllRead, notify, popModal } from './notifications';
+import { markDied, registerPlant } from './pedigree';
+import { createPlant } from './plants';
+import { isSeedLotTool, takeSeed } from './seeds';
+import {
+  checkWindPollination,
+  handleAutogamy,
+  handleAnimalPollination,
+  handleAutogamyStart,
+  handleBuzzPollination,
+  handleManualPollination,
+  handleSelfPollination,
+  handleWindPollination,
+  hasWindPartners,
+  reconcilePollenSack,
+  scheduleSelfFertilization,
+} from './pollination';
+import { handleHiveDay, handlePollinatorFlight, handlePollinatorsDied, reconcilePollinators, toggleHive } from './pollinators';
+import { randomSeed, withGameRandom } from './random';
+import { cancelTimers, createScheduler, DELAYS, hasTimer, nextEventTick, schedule, setSpeed, setTick, takeDueTimer, togglePause } from './scheduler';
+import { sprayPesticide, updateResidue } from './pesticide';
+import { handlePestCheck, reconcilePests } from './pests';
+import { applySyntheticFertilizer, updateSoil } from './soil';
+import { getSpecies, isPlantType, SPECIES_LIST } from './species';
+import type { Clock, GameAction, GameSettings, GameState, GardenLayout, GardenSize, NotificationText, PlantState, PlantType, ScheduledEvent, SelectedTool, TimedEvent, WeatherType, Wind } from './types';
+import { growIfMoist, handleSoilWater, reconcileWaterCycle, soakGarden, waterPlot } from './water';
+import { FORECAST_LENGTH, generateForecast, isFrost, isRaining, isSameWind, isWindy, randomWeather, WIND_DIRECTION_NAMES } from './weather';
+
+export const createInitialState = (
+  clock: Clock,
+  gardenSize: GardenSize = DEFAULT_GARDEN_SIZE,
+  disabledPlotIds: number[] = [],
+  { climate = DEFAULT_CLIMATE, seed = randomSeed(clock) }: Partial<GameSettings> = {},
+): GameState => {
+  const state: GameState = {
+    gardenSize,
+    garden: createGarden(gardenSize, disabledPlotIds),
+    inventory: {},
+    seedBank: [],
+    compost: createCompost(),
+    market: createMarket(),
+    climate,
+    seed,
+    rngState: seed,
+    day: 0,
+    isNight: false,
+    weather: 'sunny',
+    wind: null,
+    forecast: [],
+    pollinators: [],
+    manualBeeMode: false,
+    hive: emptyHive(),
+    pollenSack: null,
+    reproducedPlantIds: [],
+    pedigree: {},
+    scheduler: createScheduler(),
+    notifications: [],
+    modalStack: [],
+    activeConnections: [],
+    animatingPlots: [],
+    fertilizingPlots: [],
+    bacteria: [],
+    isPollinating: false,
+  };
+  return { ...state, forecast: generateForecast(seed, climate, state.day, state.weather) };
+};
+
+// Starts a fresh game on a prepared garden, re-arming what each plant would
+// have scheduled so watered seedlings grow and lone plants still self-pollinate.
+// The generator goes on from where the exporter left it, so everyone who opens
+// the layout sees the same run and no new plant reuses the id of one in it.
+export const createStateFromLayout = (clock: Clock, { gardenSize, garden, climate, seed, rngState, day, weather, wind, forecast }: GardenLayout): GameState => {
+  let state: GameState = { ...createInitialState(clock, gardenSize, [], { climate, seed }), rngState, garden, day, weather, wind, forecast };
+  for (const plot of garden) {
+    if (plot.plant) state = registerPlant(state, plot.plant);
+    if (plot.plant?.stage === 'seedling') {
+      state = growIfMoist(state, plot.id);
+    } else if (plot.plant?.stage === 'flowering') {
+      state = scheduleSelfFertilization(state, plot.id, plot.plant);
+    }
+  }
+  return withGameRandom(state, clock, seeded => settle(state, seeded));
+};
+
+// --- WEATHER ---
+
+// Weather that changes the rules gets explained the day it arrives
+const WEATHER_NOTICES: Partial<Record<WeatherType, NotificationText>> = {
+  drought: ["Seca 🏜️", "Dias sem chuva e ar seco: a terra secou. Os brotos só crescem se você os regar."],
+  heatwave: ["Onda de Calor 🌡️", "Acima de 35 °C o pólen perde a viabilidade e as flores caem. Hoje nenhuma planta poliniza, e a terra secou."],
+  storm: ["Tempestade ⛈️", "Chuva forte e ventania: a terra ficou encharcada e o vento leva o pólen para longe."],
+};
+
+// Frost kills tender crops at any stage; hardy ones shrug it off
+const applyFrost = (state: GameState, clock: Clock): GameState => {
+  const victims = state.garden.filter(plot => plot.plant && getSpecies(plot.plant.type).frostSensitive);
+  if (victims.length === 0) return state;
+
+  let next = victims.reduce((acc, plot) => markDied(acc, plot.plant!.instanceId), state);
+  next = { ...next, garden: next.garden.map(plot => (victims.includes(plot) ? leaveDebris(plot) : plot)) };
+  const types = [...new Set(victims.map(plot => plot.plant!.type))];
+  const lost = victims.length === 1 ? 'uma planta morreu' : `${victims.length} plantas morreram`;
+  return notify(next, clock, "Geada ❄️", `A noite gelou e ${lost}: ${types.join(', ')}. Essas culturas não resistem ao frio; no inverno, plante espécies resistentes ou espere a primavera.`);
+};
+
+// A new season changes the weather and which flowers open
+const announceSeason = (state: GameState, clock: Clock): GameState => {
+  const season = seasonOf(state.day);
+  const blooming = SPECIES_LIST.filter(species => species.flowering && isInBloom(species.name, state.day)).map(species => species.name);
+  const resting = SPECIES_LIST.filter(species => species.flowering && !isInBloom(species.name, state.day)).map(species => species.name);
+  return notify(
+    state,
+    clock,
+    `${SEASON_NAMES[season]} ${SEASON_EMOJIS[season]}`,
+    `Começou a estação: os dias têm ${formatDayLength(dayLength(state.day))} de luz.` +
+      (blooming.length > 0 ? ` Florescem agora: ${blooming.join(', ')}.` : '') +
+      (resting.length > 0 ? ` Fora de época, sem flores: ${resting.join(', ')}.` : ''),
+  );
+};
+
+const applyWeatherChange = (state: GameState, clock: Clock, prevWeather: WeatherType, prevWind: Wind | null): GameState => {
+  let next = state;
+  const { weather } = state;
+
+  if (weather !== prevWeather && WEATHER_NOTICES[weather]) next = notify(next, clock, ...WEATHER_NOTICES[weather]);
+  if (isFrost(weather)) next = applyFrost(next, clock);
+
+  // RAIN: a first shower soaks every plot; the soil checks keep filling it while it lasts
+  if (isRaining(weather) && !isRaining(prevWeather)) next = soakGarden(next);
+
+  // WIND: a fresh gust, or one that turns, gives every wind-pollinated plant a new chance to cross
+  if (isWindy(weather) && (!isWindy(prevWeather) || !isSameWind(prevWind, state.wind))) {
+    next = { ...next, reproducedPlantIds: [] };
+    if (!hasWindPartners(next)) {
+      next = schedule({ ...next, isPollinating: false }, DELAYS.windNotice, {
+        kind: 'notify',
+        title: "Vento sem Sementes 🌬️",
+        message: "O vento soprou, mas não havia plantas da mesma espécie polinizadas pelo vento (como o milho) para cruzar.",
+      });
+    } else {
+      const pollinated = checkWindPollination(next, clock);
+      next = pollinated !== next ? pollinated : schedule(next, DELAYS.windNotice, {
+        kind: 'notify',
+        title: "Pólen Perdido 🌬️",
+        message: `O vento soprou para o ${WIND_DIRECTION_NAMES[state.wind!.towards]} e levou o pólen para longe das outras plantas. Plante o milho em blocos, não em fileiras: assim sempre há uma planta a favor do vento de outra, venha ele de onde vier.`,
+      });
+    }
+  } else if (isWindy(prevWeather) && !isWindy(weather)) {
+    next = { ...next, isPollinating: false, reproducedPlantIds: [] };
+  }
+
+  return next;
+};
+
+const advanceWeather = (state: GameState, clock: Clock): GameState => {
+  const day = state.day + 1;
+  const [{ weather, wind }, ...rest] = state.forecast;
+  const lastDay = rest[rest.length - 1]?.weather ?? weather;
+  let next: GameState = { ...state, day, isNight: false, weather, wind, forecast: [...rest, randomWeather(state.seed, state.climate, day + FORECAST_LENGTH, lastDay)] };
+  next = updateDemand(matureCompost(handleHiveDay(updateResidue(updateSoil(next), clock), clock), clock), clock);
+  if (seasonOf(day) !== seasonOf(state.day)) next = announceSeason(next, clock);
+  return applyWeatherChange(next, clock, state.weather, state.wind);
+};
+
+// --- TOOLS ---
+
+const plantSeed = (state: GameState, clock: Clock, plotId: number, seed: PlantState): GameState => {
+  // A new plant grows on whatever the last crops left in the soil, next to whatever its neighbours are
+  const next = growIfMoist(placePlant(state, plotId, seed), plotId);
+  return announceCompanions(next, clock, plotId);
+};
+
+// Commercial seed is always at hand but has to be bought; a saved lot is free but runs out
+const sowSeed = (state: GameState, clock: Clock, plotId: number, tool: PlantType | { seedLotId: string }): GameState => {
+  if (!isFreePlot(state.garden[plotId])) return state;
+  if (!isSeedLotTool(tool)) return buy(state, clock, seedPrice(tool), `A semente de ${tool}`, paid => plantSeed(paid, clock, plotId, createPlant(clock, tool)));
+  const taken = takeSeed(state, clock, tool.seedLotId);
+  return taken ? plantSeed(taken[0], clock, plotId, taken[1]) : state;
+};
+
+const clickPlot = (state: GameState, clock: Clock, plotId: number, tool: SelectedTool): GameState => {
+  const plot = state.garden[plotId];
+  if (!plot || plot.isDisabled) return state;
+
+  if (tool === 'polinizacao_manual') return handleManualPollination(state, clock, plotId);
+  if (tool === 'colher') return harvestPlot(state, clock, plotId);
+  if (isPlantType(tool) || isSeedLotTool(tool)) return sowSeed(state, clock, plotId, tool);
+
+  if (tool === 'regador') return waterPlot(state, plotId);
+  if (tool === 'adubo_organico') return spreadCompost(state, clock, plotId);
+  if (tool === 'adubo_quimico') return applySyntheticFertilizer(state, clock, plotId);
+  if (tool === 'agrotoxico' && plot.plant) return buy(state, clock, PESTICIDE_PRICE, 'O agrotóxico', paid => sprayPesticide(paid, plotId));
+  return state;
+};
+
+// --- TIMED EVENTS ---
+
+const runEvent = (state: GameState, clock: Clock, { event }: ScheduledEvent): GameState => {
+  switch (event.kind) {
+    case 'grow': return handleGrow(state, clock, event.plotId);
+    case 'nextStage': return handleNextStage(state, clock, event.plotId, event.instanceId);
+    case 'nitrogenFixation': return handleNitrogenFixation(state, clock, event.plotId, event.instanceId, event.bacteriumId);
+    case 'autogamyStart': return handleAutogamyStart(state, event.plotId, event.instanceId);
+    case 'autogamy': return handleAutogamy(state, clock, event.plotId, event.instanceId);
+    case 'selfPollination': return handleSelfPollination(state, clock, event.plotId, event.instanceId);
+    case 'buzzPollination': return handleBuzzPollination(state, clock, event.plotId, event.instanceId);
+    case 'pollinatorFlight': return handlePollinatorFlight(state, clock);
+    case 'animalPollination': return handleAnimalPollination(state, clock, event);
+    case 'windPollination': return handleWindPollination(state, clock, event.births);
+    case 'pollinatorsDied': return handlePollinatorsDied(state, clock);
+    case 'greenManureApplied': return handleGreenManureApplied(state, event.plotIds);
+    case 'soilWater': return handleSoilWater(state, clock);
+    case 'pestCheck': return handlePestCheck(state, clock);
+    case 'notify': return notify(state, clock, event.title, event.message);
+    case 'lonePlantHint': {
+      const hint = getSpecies(event.plantType).messages.lonePlant;
+      return hint ? notify(state, clock, ...hint) : state;
+    }
+  }
+};
+
+// A lone flowering plant of a species with a hint gets it after a while; anything else cancels it
+const reconcileLonePlantHint = (state: GameState, type: PlantType): GameState => {
+  const isHintFor = (event: TimedEvent) => event.kind === 'lonePlantHint' && event.plantType === type;
+  const plots = state.garden.filter(plot => plot.plant?.type === type);
+  const isSingleFloweringPlant = plots.length === 1 && plots[0].plant?.stage === 'flowering';
+  const isHintPending = hasTimer(state, isHintFor);
+
+  if (isSingleFloweringPlant && !isHintPending) return schedule(state, DELAYS.lonePlantHint, { kind: 'lonePlantHint', plantType: type });
+  if (!isSingleFloweringPlant && isHintPending) return cancelTimers(state, isHintFor);
+  return state;
+};
+
+const reconcileLonePlantHints = (state: GameState): GameState =>
+  SPECIES_LIST.filter(species => species.messages.lonePlant).reduce((next, species) => reconcileLonePlantHint(next, species.name), state);
+
+// Derived rules that must hold after every change
+const settle = (state: GameState, clock: Clock): GameState =>
+  reconcilePollenSack(reconcilePests(reconcileWaterCycle(reconcileLonePlantHints(reconcileLifeCycles(reconcilePollinators(state, clock))))));
+
+// Fires every timer due up to `until`, in order, then parks the clock there
+const advanceTo = (state: GameState, clock: Clock, until: number): GameState => {
+  let next = state;
+  for (;;) {
+    const [due, remaining] = takeDueTimer(next, until);
+    if (!due) return setTick(next, until);
+    next = settle(runEvent(remaining, clock, due), clock);
+  }
+};
+
+const tick = (state: GameState, clock: Clock): GameState => {
+  const { paused, speed, tick: now } = state.scheduler;
+  return paused ? state : advanceTo(state, clock, now + speed);
+};
+
+const skipToNextEvent = (state: GameState, clock: Clock): GameState => {
+  const at = nextEventTick(state);
+  return at === null ? state : advanceTo(state, clock, Math.max(at, state.scheduler.tick));
+};
+
+const applyAction = (state: GameState, action: GameAction, clock: Clock): GameState => {
+  switch (action.type) {
+    case 'tick': return tick(state, clock);
+    case 'togglePause': return togglePause(state);
+    case 'setSpeed': return setSpeed(state, action.speed);
+    case 'skipToNextEvent': return skipToNextEvent(state, clock);
+    case 'clickPlot': return clickPlot(state, clock, action.plotId, action.tool);
+    case 'advanceWeather': return advanceWeather(state, clock);
+    case 'nightfall': return state.isNight ? state : { ...state, isNight: true };
+    case 'toggleManualBees': return toggleHive(state, clock);
+    case 'compostProduce': return compostProduce(state, action.plantType, action.size);
+    case 'sellProduce': return sellProduce(state, action.plantType, action.size, action.category);
+    case 'clearPollenSack': return state.pollenSack ? { ...state, pollenSack: null } : state;
+    case 'markNotificationsRead': return markAllRead(state);
+    case 'showGreenManure': return showGreenManure(state, clock, action.plotIds);
+    case 'applyGreenManure': return applyGreenManure(state, clock, action.plotIds);
+    case 'dismissModal': {
+      const [followUp, next] = popModal(state);
+      return followUp ? applyAction(next, followUp, clock) : next;
+    }
+  }
+};
+
+// The whole game as a pure function: same state, action and clock give the same result.
+export const step = (state: GameState, action: GameAction, clock: Clock): GameState =>
+  withGameRandom(state, clock, seeded => {
+    const next = applyAction(state, action, seeded);
+    return next === state ? state : settle(next, seeded);
+  });
@@ -0,0 +1,396 @@
+export type PlantType = string; // Name of a species defined in species.json
+export type ToolType = 'regador' | 'adubo_organico' | 'adubo_quimico' | 'agrotoxico' | 'colher' | 'polinizacao_manual';
+export type PlantSize = 'small' | 'normal' | 'large';
+export type WeatherType = 'sunny' | 'raining' | 'sunny_windy' | 'raining_windy' | 'frost' | 'drought' | 'storm' | 'heatwave';
+export type ClimateId = 'semiarido' | 'mata_atlantica' | 'cerrado';
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+export type WindDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+export type WindStrength = 1 | 2 | 3;
+// A plant that dies leaves debris on its plot rather than a stage of its own
+export type PlantStage = 'seedling' | 'vegetative' | 'flowering' | 'fruiting' | 'senescent';
+export type PlantVigor = 'small' | 'normal' | 'hybrid';
+export type PollinatorKind = 'bee' | 'butterfly' | 'hummingbird' | 'bat';
+export type PollinationMethod = PollinatorKind | 'wind' | 'manual' | 'self' | 'buzz' | 'clone';
+
+// Alleles: uppercase is dominant, lowercase is recessive
+export type VigorAllele = 'V' | 'v';
+export type ColorAllele = 'C' | 'c';
+export type AllelePair<A> = [A, A];
+
+export interface Genotype {
+  vigor: AllelePair<VigorAllele>[]; // Size loci; 'vv' at any of them expresses a deleterious recessive
+  color: AllelePair<ColorAllele>;   // Fruit colour locus
+}
+
+// How pollen reaches the flowers: carried by animals, blown by the wind, shaken
+// out of closed anthers by vibrating bumblebees, or never leaving the flower (autogamy)
+export type PollinationSyndrome = 'animal' | 'wind' | 'buzz' | 'self';
+
+// What a pollinator sees of a flower; each kind only feeds from some of them
+export type FlowerColor = 'yellow' | 'white' | 'red' | 'purple';
+export type FlowerShape = 'open' | 'cluster' | 'tubular';
+
+export interface FlowerTraits {
+  color: FlowerColor;
+  shape: FlowerShape;
+  opensAtNight?: boolean; // Closed by day, open at night
+}
+
+export type NotificationText = [title: string, message: string];
+
+// What a plant does to the neighbours listed for each effect in species.json
+export type CompanionEffect = 'climbs' | 'shades' | 'inhibits';
+
+export type Nutrient = 'nitrogen' | 'phosphorus' | 'potassium';
+
+// Sap-sucking aphids and leaf-eating caterpillars
+export type PestType = 'aphid' | 'caterpillar';
+
+export interface Infestation {
+  pest: PestType;
+  severity: number; // 0 to 100; spreads and cuts the harvest as it grows
+}
+
+// Nutrients and organic matter in a plot, each from 0 (exhausted) to 100
+export interface SoilState extends Record<Nutrient, number> {
+  organicMatter: number; // Slowly turns into nitrogen and marks organically managed soil
+  salinity: number;      // Salt left by synthetic fertilizer; keeps roots from taking up nutrients
+}
+
+// A crop as declared in species.json; the engine has no species-specific rules
+export interface SpeciesDefinition {
+  name: PlantType;
+  emoji: string;
+  tooltip: string;
+  connectionColor: string;
+  growthTime: number;       // Ticks from watering until the seedling takes root
+  lifeCycle: Record<Exclude<PlantStage, 'seedling'>, number>; // Ticks spent in each later stage
+  flower?: FlowerTraits;    // Required when animals visit it
+  attracts?: PollinatorKind[]; // Brings these pollinators to the garden while in bloom
+  attractsLadybugs?: boolean; // Its flowers keep ladybugs around, which eat pests nearby
+  companions?: Partial<Record<CompanionEffect, PlantType[]>>; // Effects on neighbouring plants of these species
+  pests?: PestType[];       // Pests that attack it and spread between plants of the species
+  fixesNitrogen?: boolean;  // Hosts Rhizobium and leaves green manure when harvested
+  nutrients: Record<Nutrient, number>; // Taken from the soil at each harvest; a normal harvest needs this much
+  prices: {
+    seed: number;    // Reais for commercial seed, or a cutting, for one plot
+    produce: number; // Reais for one normal, plain item at the market on an ordinary day
+  };
+  beeYieldBonus?: boolean;  // Bee visits make the harvest bigger, even without cross-pollination
+  propagatesByCuttings?: boolean; // Harvesting replants a clone on the same plot
+  frostSensitive?: boolean; // Killed by frost at any stage
+  flowering?: {
+    seasons?: Season[];     // Only blooms in these seasons; any season when absent
+    minDayLength?: number;  // Long-day plants need at least this many hours of light
+  };
+  pollination: {
+    syndrome: PollinationSyndrome;
+    needsPartner: boolean;     // Otherwise a lone plant self-fertilizes after the delay
+    selfIncompatible: boolean; // Rejects its own pollen and that of parents and children
+    selfFertilizationDelay?: number; // Ticks after growing
+  };
+  genetics: {
+    recessiveLoad: number; // Vigor loci carrying a hidden recessive in commercial seeds
+    fruitColors: [dominant: string, recessive: string];
+    recessiveColorFilter: string; // CSS filter that tints the emoji for the recessive colour
+  };
+  messages: {
+    crossPollination?: NotificationText;
+    selfPollination?: NotificationText;
+    lonePlant?: NotificationText; // Hint when a single plant waits in vain for a partner
+    beeVisit?: NotificationText;
+    cloning?: NotificationText;
+    guild?: NotificationText; // When it climbs a neighbour that another neighbour shades
+  };
+}
+
+export interface PlantState {
+  instanceId: string;
+  type: PlantType;
+  stage: PlantStage;
+  stageStartedAt?: number; // Tick the current stage began; absent on seedlings
+  phenotype: string;
+  parentIds: string[];
+  genotype: Genotype;
+  pollination?: PollinationMethod; // How the plant was made; absent for commercial seeds
+  isBoosted?: boolean;
+  isBeeVisited?: boolean; // Bees worked its flowers (see beeYieldBonus)
+  waterStress?: number;   // Soil checks in a row spent too dry or waterlogged; wilted while above 0
+  infestation?: Infestation;
+}
+
+// Lineage record of a plant, kept after it is harvested
+export interface PedigreeEntry {
+  instanceId: string;
+  type: PlantType;
+  parentIds: string[];
+  genotype: Genotype;
+  pollination?: PollinationMethod;
+  generation: number;   // 0 for commercial seeds
+  inbreeding: number;   // Wright's F
+  bornAt: number;       // Tick
+  harvestedAt?: number; // Tick
+  diedAt?: number;      // Tick
+}
+
+export type PedigreeRegistry = Record<string, PedigreeEntry>;
+
+export interface GardenSize {
+  width: number;
+  height: number;
+}
+
+export interface Wind {
+  towards: WindDirection; // Where the wind blows to, so pollen lands that way
+  strength: WindStrength; // 1 breeze … 3 strong; carries pollen further
+}
+
+// One day of the forecast, starting tomorrow; windy weather always comes with a wind
+export interface WeatherReport {
+  weather: WeatherType;
+  wind: Wind | null;
+}
+
+// Relative chance of each weather in a season; missing ones never happen
+export type WeatherWeights = Partial<Record<WeatherType, number>>;
+
+// A Brazilian biome's weather as a Markov chain: each day's weights are the
+// season's, multiplied by whatever follows yesterday's weather
+export interface ClimateDefinition {
+  name: string;
+  emoji: string;
+  description: string;
+  seasons: Record<Season, WeatherWeights>;
+  transitions: Partial<Record<WeatherType, WeatherWeights>>;
+  prevailingWind: WindDirection; // Where most windy days blow to
+}
+
+export interface PlotState {
+  id: number; // row * width + column
+  plant: PlantState | null;
+  isDisabled: boolean; // Paths and borders: nothing can be planted there
+  moisture: number; // Soil water, 0 (dust) to 100 (puddle)
+  soil: SoilState;
+  cropHistory: PlantType[]; // Last harvests on this plot, oldest first
+  pesticide: number; // Residue, 0 to 100; drifts, washes off and breaks down day by day
+  debris?: PlantType; // What is left of a plant that died here, until it is composted
+}
+
+export interface Connection {
+  from: number;
+  to: number;
+  type: PlantType;
+  pollinator?: PollinatorKind; // The animal that carried the pollen, if any
+}
+
+// A companion effect of the plant on one plot on the plant next to it
+export interface CompanionLink {
+  from: number;
+  to: number;
+  effect: CompanionEffect;
+}
+
+export type InventoryCounts = {
+  plain: number;          // Plants without specific fertilizer types
+  organic: number;        // Plants grown in soil rich in organic matter
+  pesticide: number;      // Plants harvested with heavy pesticide residue
+};
+export type InventoryState = Partial<Record<PlantType, Record<PlantSize, InventoryCounts>>>;
+export type InventoryCategory = keyof InventoryCounts;
+
+// The farmers' market: what the player has earned, and how eager buyers are
+export interface MarketState {
+  cash: number; // Reais
+  demand: Partial<Record<PlantType, number>>; // Multiplies the price; 1 when absent
+}
+
+// Plant matter put in the bin on one day
+export interface CompostBatch {
+  startedOn: number; // Day
+  material: number;  // Parts of plant matter
+}
+
+export interface CompostState {
+  batches: CompostBatch[]; // Still rotting, oldest first
+  fertilizer: number;      // Doses of finished compost for the organic fertilizer tool
+}
+
+// A pollination the harvested plant took part in; its seeds carry the same cross
+export interface SeedCross {
+  partnerId: string; // The plant itself when it self-fertilized
+  pollination: PollinationMethod;
+}
+
+// Seeds saved from one harvested plant, which keep its lineage when sown
+export interface SeedLot {
+  id: string;
+  type: PlantType;
+  motherId: string;
+  crosses: SeedCross[];
+  count: number;
+  harvestedOn: number; // Day
+}
+
+export interface Notification {
+  id: string;
+  title: string;
+  message: string;
+  timestamp: number;
+  isNew: boolean;
+  onDismiss?: GameAction; // Follow-up action dispatched when the modal is closed
+}
+
+export interface PollenSack {
+  plant: PlantState;
+  sourcePlotId: number;
+}
+
+// A forager flying from plot to plot. It never strays further than its
+// foraging range from home, and only carries pollen from flowers it visited.
+export interface PollinatorAgent {
+  id: string;
+  kind: PollinatorKind;
+  homePlotId: number; // The hive, or the flower that attracted a wild visitor
+  plotId: number;     // Where it is now
+  path: number[];     // Recently visited plots, oldest first
+  pollen: PollenSack | null;
+  isDying?: boolean;  // Poisoned: falls where it is and is gone at the next pollinatorsDied
+}
+
+// The colony in the kept hive, as it was at the end of a day
+export interface HiveRecord {
+  day: number;
+  population: number;
+  health: number;
+}
+
+export interface HiveState {
+  population: number; // Workers; the colony is gone at 0
+  health: number;     // 0 to 100; how well the bees find their way and forage
+  history: HiveRecord[]; // Oldest first, for the chart
+}
+
+// A bacterium travelling towards a bean; the UI decides where it comes from
+export interface BacteriumTrip {
+  id: string;
+  plotId: number;
+}
+
+export interface PendingBirth {
+  plotId: number;
+  plant: PlantState;
+}
+
+// Everything the engine may want to happen later. Handlers re-check the garden
+// when the event fires, so a harvested plant simply makes its events no-ops.
+export type TimedEvent =
+  | { kind: 'grow'; plotId: number }
+  | { kind: 'nextStage'; plotId: number; instanceId: string }
+  | { kind: 'nitrogenFixation'; plotId: number; instanceId: string; bacteriumId: string }
+  | { kind: 'autogamyStart'; plotId: number; instanceId: string }
+  | { kind: 'autogamy'; plotId: number; instanceId: string }
+  | { kind: 'selfPollination'; plotId: number; instanceId: string }
+  | { kind: 'buzzPollination'; plotId: number; instanceId: string }
+  | { kind: 'pollinatorFlight' }
+  | { kind: 'animalPollination'; plotId: number; instanceId: string; pollen: PollenSack; pollinator: PollinatorKind }
+  | { kind: 'windPollination'; births: PendingBirth[] }
+  | { kind: 'pollinatorsDied' }
+  | { kind: 'lonePlantHint'; plantType: PlantType }
+  | { kind: 'greenManureApplied'; plotIds: number[] }
+  | { kind: 'soilWater' } // Rain fills and sun dries every plot, then plants react
+  | { kind: 'pestCheck' } // Pests break out, grow and spread; predators and residue fight them
+  | { kind: 'notify'; title: string; message: string };
+
+export interface ScheduledEvent {
+  id: number;
+  at: number; // Tick at which the event fires
+  event: TimedEvent;
+}
+
+export type GameSpeed = 1 | 2 | 5;
+
+// Simulated time: nothing in the game moves unless the scheduler advances
+export interface SchedulerState {
+  tick: number;
+  speed: GameSpeed;
+  paused: boolean;
+  timers: ScheduledEvent[];
+  nextTimerId: number;
+}
+
+export interface GameState {
+  gardenSize: GardenSize;
+  garden: PlotState[];
+  inventory: InventoryState;
+  seedBank: SeedLot[];
+  compost: CompostState;
+  market: MarketState;
+  climate: ClimateId;
+  seed: number;     // Chosen when the game starts; replays the same run
+  rngState: number; // Where the seeded generator is now
+  day: number; // Days since the game started, which was the first day of spring
+  isNight: boolean; // Night falls when the player asks; the next day starts at dawn
+  weather: WeatherType;
+  wind: Wind | null;
+  forecast: WeatherReport[];
+  pollinators: PollinatorAgent[];
+  manualBeeMode: boolean; // The player keeps a hive in the middle of the garden
+  hive: HiveState;
+  pollenSack: PollenSack | null;
+  reproducedPlantIds: string[];
+  pedigree: PedigreeRegistry;
+  scheduler: SchedulerState;
+  notifications: Notification[];
+  modalStack: string[]; // Notification ids shown as modals, top first
+  // Visual state, driven by the same timers as the rules
+  activeConnections: Connection[];
+  animatingPlots: number[];
+  fertilizingPlots: number[];
+  bacteria: BacteriumTrip[];
+  isPollinating: boolean;
+}
+
+// The part of a game a teacher can hand to students: the grid and the sky
+export interface GardenLayout {
+  gardenSize: GardenSize;
+  garden: PlotState[];
+  climate: ClimateId;
+  seed: number;
+  rngState: number; // Where the exporter's generator was, so new plants get fresh ids
+  day: number;
+  weather: WeatherType;
+  wind: Wind | null;
+  forecast: WeatherReport[];
+}
+
+// Picked when creating a garden; anything left out is chosen for the player
+export interface GameSettings {
+  climate: ClimateId;
+  seed: number;
+}
+
+export type SelectedTool = PlantType | ToolType | { seedLotId: string } | null;
+
+export type GameAction =
+  | { type: 'tick' } // One real TICK_MS has passed
+  | { type: 'togglePause' }
+  | { type: 'setSpeed'; speed: GameSpeed }
+  | { type: 'skipToNextEvent' }
+  | { type: 'clickPlot'; plotId: number; tool: SelectedTool }
+  | { type: 'advanceWeather' }
+  | { type: 'nightfall' }
+  | { type: 'toggleManualBees' }
+  | { type: 'compostProduce'; plantType: PlantType; size: PlantSize }
+  | { type: 'sellProduce'; plantType: PlantType; size: PlantSize; category: InventoryCategory }
+  | { type: 'clearPollenSack' }
+  | { type: 'dismissModal' }
+  | { type: 'markNotificationsRead' }
+  | { type: 'showGreenManure'; plotIds: number[] }
+  | { type: 'applyGreenManure'; plotIds: number[] };
+
+// Injected by the caller so that `step` stays pure. Game time is owned by
+// the scheduler; wall time is only used to timestamp notifications.
+export interface Clock {
+  wallTime: number;
+  random: () => number;
+}
@@ -0,0 +1,111 @@
+import { SHADED_DRYING, shadedPlotIds } from './companions';
+import { leaveDebris, updatePlot } from './garden';
+import { scheduleGrowth } from './growth';
+import { notify } from './notifications';
+import { markDied } from './pedigree';
+import { DELAYS, hasTimer, schedule } from './scheduler';
+import type { Clock, GameState, PlotState, WeatherType } from './types';
+
+export const MAX_MOISTURE = 100;
+// Seedlings start growing once the soil is this moist
+export const GERMINATION_MOISTURE = 40;
+// Below this roots can't pull any water out; above it they drown
+export const WILTING_POINT = 15;
+export const WATERLOGGED_MOISTURE = 90;
+
+const WATERING_CAN = 40;
+const RAIN_SHOWER = 30; // The moment rain starts
+// Soil checks a wilted plant survives before it dies
+const WILT_LIMIT = 12;
+
+// Moisture gained at every soil check: rain fills, sun and wind dry the soil
+const WATER_BALANCE: Record<WeatherType, number> = {
+  sunny: -1,
+  sunny_windy: -2,
+  raining: 4,
+  raining_windy: 3,
+  storm: 8,
+  frost: 0,
+  drought: -3,
+  heatwave: -4,
+};
+
+export const isTooDry = (plot: PlotState) => plot.moisture < WILTING_POINT;
+export const isWaterlogged = (plot: PlotState) => plot.moisture > WATERLOGGED_MOISTURE;
+export const isMoist = (plot: PlotState) => plot.moisture >= GERMINATION_MOISTURE;
+
+// A seedling in moist soil starts growing; scheduleGrowth ignores repeated calls
+export const growIfMoist = (state: GameState, plotId: number): GameState => {
+  const plot = state.garden[plotId];
+  return plot?.plant?.stage === 'seedling' && isMoist(plot) ? scheduleGrowth(state, plotId) : state;
+};
+
+const clampMoisture = (moisture: number) => Math.min(MAX_MOISTURE, Math.max(0, moisture));
+
+export const addWater = (state: GameState, plotIds: number[], amount: number): GameState => {
+  let next = state;
+  for (const plotId of plotIds) {
+    if (next.garden[plotId]?.isDisabled !== false) continue;
+    next = growIfMoist(updatePlot(next, plotId, plot => ({ ...plot, moisture: clampMoisture(plot.moisture + amount) })), plotId);
+  }
+  return next;
+};
+
+const usablePlotIds = (state: GameState) => state.garden.filter(plot => !plot.isDisabled).map(plot => plot.id);
+
+export const waterPlot = (state: GameState, plotId: number) => addWater(state, [plotId], WATERING_CAN);
+
+export const soakGarden = (state: GameState) => addWater(state, usablePlotIds(state), RAIN_SHOWER);
+
+// --- SOIL CHECK ---
+
+// Rooted plants wilt in bad soil, recover as soon as it is fine again, and die if it lasts
+const updateWaterStress = (state: GameState, clock: Clock): GameState => {
+  const wilting: string[] = [];
+  const dead: PlotState[] = [];
+
+  const garden = state.garden.map(plot => {
+    const plant = plot.plant;
+    if (!plant || plant.stage === 'seedling') return plot;
+    if (!isTooDry(plot) && !isWaterlogged(plot)) {
+      return plant.waterStress ? { ...plot, plant: { ...plant, waterStress: 0 } } : plot;
+    }
+    const waterStress = (plant.waterStress ?? 0) + 1;
+    if (waterStress > WILT_LIMIT) {
+      dead.push(plot);
+      return leaveDebris(plot);
+    }
+    if (waterStress === 1) wilting.push(plant.type);
+    return { ...plot, plant: { ...plant, waterStress } };
+  });
+
+  let next = dead.reduce((acc, plot) => markDied(acc, plot.plant!.instanceId), { ...state, garden });
+  if (wilting.length > 0) {
+    next = notify(next, clock, "Plantas Murchas 🥀", `Murcharam: ${[...new Set(wilting)].join(', ')}. O solo está seco demais ou encharcado, e uma planta murcha não floresce. Regue a terra seca; na terra encharcada, espere a água escoar.`);
+  }
+  if (dead.length > 0) {
+    const drowned = dead.filter(isWaterlogged).length;
+    next = notify(
+      next,
+      clock,
+      "Plantas Mortas 💀",
+      `Ficaram murchas tempo demais e morreram: ${dead.map(plot => plot.plant!.type).join(', ')}.` +
+        (drowned > 0 ? ' No solo encharcado as raízes apodrecem sem ar.' : ' A terra secou e elas morreram de sede.') +
+        ' Os restos (🍂) ficaram nos lotes: leve-os à composteira com a cesta.',
+    );
+  }
+  return next;
+};
+
+export const handleSoilWater = (state: GameState, clock: Clock): GameState => {
+  const balance = WATER_BALANCE[state.weather];
+  // Leaves covering the ground slow the drying, but don't hold back rain
+  const shaded = balance < 0 ? shadedPlotIds(state) : [];
+  const exposed = usablePlotIds(state).filter(plotId => !shaded.includes(plotId));
+  const next = addWater(addWater(state, exposed, balance), shaded, balance * SHADED_DRYING);
+  return updateWaterStress(next, clock);
+};
+
+// The soil check runs for as long as the game does
+export const reconcileWaterCycle = (state: GameState): GameState =>
+  hasTimer(state, event => event.kind === 'soilWater') ? state : schedule(state, DELAYS.soilWater, { kind: 'soilWater' });
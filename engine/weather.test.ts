@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState, step } from './step';
+import type { Clock, GameAction, GameState } from './types';
+
+const clock = (): Clock => ({ wallTime: 0, random: Math.random });
+
+// The weather of each of the next days, with the given actions played every morning
+const weatherOf = (seed: number, days: number, chores: GameAction[] = []) => {
+  let state: GameState = createInitialState(clock(), undefined, [], { seed });
+  state = { ...state, market: { ...state.market, cash: 1000 } };
+  const seen = [];
+  for (let day = 0; day < days; day++) {
+    state = chores.reduce((acc, action) => step(acc, action, clock()), state);
+    state = step(state, { type: 'advanceWeather' }, clock());
+    seen.push({ weather: state.weather, wind: state.wind, forecast: state.forecast });
+  }
+  return seen;
+};
+
+describe('seeded weather', () => {
+  it('repeats for the same seed', () => {
+    expect(weatherOf(42, 30)).toEqual(weatherOf(42, 30));
+  });
+
+  it('changes with the seed', () => {
+    expect(weatherOf(42, 30)).not.toEqual(weatherOf(43, 30));
+  });
+
+  it('does not depend on what the player does', () => {
+    const chores: GameAction[] = [
+      { type: 'clickPlot', plotId: 0, tool: 'Milho' },
+      { type: 'clickPlot', plotId: 0, tool: 'regador' },
+      { type: 'clickPlot', plotId: 1, tool: 'Feijão' },
+      ...Array.from({ length: 50 }, (): GameAction => ({ type: 'tick' })),
+    ];
+    expect(weatherOf(42, 30, chores)).toEqual(weatherOf(42, 30));
+  });
+});
@@ -0,0 +1,96 @@
+import { seasonOf } from './calendar';
+import { CLIMATES } from './climates';
+import { mixSeed, pickWeighted, streamClock, WEATHER_STREAM } from './random';
+import type { ClimateId, Clock, WeatherReport, WeatherType, Wind, WindDirection, WindStrength } from './types';
+
+export const FORECAST_LENGTH = 4;
+
+export const WIND_DIRECTIONS: WindDirection[] = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+export const WIND_STRENGTHS: WindStrength[] = [1, 2, 3];
+
+export const WIND_DIRECTION_NAMES: Record<WindDirection, string> = {
+  N: 'norte',
+  NE: 'nordeste',
+  E: 'leste',
+  SE: 'sudeste',
+  S: 'sul',
+  SW: 'sudoeste',
+  W: 'oeste',
+  NW: 'noroeste',
+};
+
+export const WIND_STRENGTH_NAMES: Record<WindStrength, string> = {
+  1: 'fraco',
+  2: 'moderado',
+  3: 'forte',
+};
+
+// One step towards each compass point on the grid, as [columns, rows]; north is up
+const WIND_STEPS: Record<WindDirection, [number, number]> = {
+  N: [0, -1],
+  NE: [1, -1],
+  E: [1, 0],
+  SE: [1, 1],
+  S: [0, 1],
+  SW: [-1, 1],
+  W: [-1, 0],
+  NW: [-1, -1],
+};
+
+const RAINY: WeatherType[] = ['raining', 'raining_windy', 'storm'];
+const WINDY: WeatherType[] = ['sunny_windy', 'raining_windy', 'storm'];
+const DRYING: WeatherType[] = ['drought', 'heatwave'];
+
+export const isRaining = (weather: WeatherType) => RAINY.includes(weather);
+export const isWindy = (weather: WeatherType) => WINDY.includes(weather);
+export const isFrost = (weather: WeatherType) => weather === 'frost';
+// Dries the soil out, watered or not
+export const isDrying = (weather: WeatherType) => DRYING.includes(weather);
+// Flowers drop and pollen dies in the heat
+export const isHeatwave = (weather: WeatherType) => weather === 'heatwave';
+
+// The neighbouring plot the wind blows towards, as [columns, rows]
+export const windStep = ({ towards }: Wind): [number, number] => WIND_STEPS[towards];
+
+// Unit vector the wind blows along, as [dx, dy] in plots
+export const windVector = ({ towards }: Wind): [number, number] => {
+  const [dx, dy] = WIND_STEPS[towards];
+  const length = Math.hypot(dx, dy);
+  return [dx / length, dy / length];
+};
+
+export const isSameWind = (a: Wind | null, b: Wind | null) =>
+  a?.towards === b?.towards && a?.strength === b?.strength;
+
+const pick = <T,>(items: T[], clock: Clock): T => items[Math.floor(clock.random() * items.length)];
+
+// Half the windy days blow the climate's usual way; storms always blow hard
+const randomWind = (clock: Clock, climate: ClimateId, weather: WeatherType): Wind => ({
+  towards: clock.random() < 0.5 ? CLIMATES[climate].prevailingWind : pick(WIND_DIRECTIONS, clock),
+  strength: weather === 'storm' ? 3 : pick(WIND_STRENGTHS, clock),
+});
+
+// Each day draws from its own stream of the game seed, so what the player does
+// in the garden, and when, never changes the sky
+const dayClock = (seed: number, day: number) => streamClock(mixSeed(mixSeed(seed, WEATHER_STREAM), day));
+
+// Tomorrow depends on the season and on today: one step of the climate's Markov chain
+export const randomWeather = (seed: number, climate: ClimateId, day: number, yesterday: WeatherType): WeatherReport => {
+  const clock = dayClock(seed, day);
+  const { seasons, transitions } = CLIMATES[climate];
+  const weights = Object.entries(seasons[seasonOf(day)]).map(([weather, weight]) => ({
+    item: weather as WeatherType,
+    weight: weight! * (transitions[yesterday]?.[weather as WeatherType] ?? 1),
+  }));
+  const weather = pickWeighted(weights, clock);
+  return { weather, wind: isWindy(weather) ? randomWind(clock, climate, weather) : null };
+};
+
+// The days after `today`, each following the one before
+export const generateForecast = (seed: number, climate: ClimateId, today: number, weather: WeatherType): WeatherReport[] => {
+  const forecast: WeatherReport[] = [];
+  for (let i = 1; i <= FORECAST_LENGTH; i++) {
+    forecast.push(randomWeather(seed, climate, today + i, forecast[forecast.length - 1]?.weather ?? weather));
+  }
+  return forecast;
+};
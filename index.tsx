@@ -1,97 +1,115 @@
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-
-type PlantType = 'Abóbora' | 'Milho' | 'Girassol' | 'Maçã' | 'Feijão';
-type ToolType = 'regador' | 'adubo_organico' | 'agrotoxico' | 'colher' | 'polinizacao_manual';
-type FertilizerType = 'organic' | 'chemical' | null; // This type definition will no longer be used directly for plot.fertilizer
-type BeeState = 'hidden' | 'visible' | 'dying';
-type PlantSize = 'small' | 'normal' | 'large';
-type WeatherType = 'sunny' | 'raining' | 'sunny_windy' | 'raining_windy';
-
-interface PlantInfo {
-  name: PlantType;
-  phenotype: string;
-}
-
-const PLANT_CONFIG: Record<PlantType, PlantInfo> = {
-  Abóbora: { name: 'Abóbora', phenotype: '🎃' },
-  Milho: { name: 'Milho', phenotype: '🌽' },
-  Girassol: { name: 'Girassol', phenotype: '🌻' },
-  Maçã: { name: 'Maçã', phenotype: '🍎' },
-  Feijão: { name: 'Feijão', phenotype: '🫘' },
-};
-
-const SEED_TOOLTIPS: Record<PlantType, string> = {
-  Abóbora: "Precisa de abelhas. Se não tiver, se autofecunda após um tempo.",
-  Milho: "Usa o vento para cruzar. Precisa de um parceiro para se reproduzir.",
-  Girassol: "Atrai abelhas! Poliniza com elas ou se autofecunda lentamente.",
-  Maçã: "Exige abelhas e outra macieira para gerar sementes.",
-  Feijão: "Se autofecunda após 15s, gerando uma planta de tamanho normal.",
-};
+import {
+  createInitialState,
+  createStateFromLayout,
+  step,
+  isRaining,
+  isWindy as isWindyWeather,
+  isFrost,
+  isMoist,
+  isTooDry,
+  isWaterlogged,
+  isWilted,
+  STAGE_NAMES,
+  RIPENESS_NAMES,
+  fruitRipeness,
+  isHeatwave,
+  isOrganicSoil,
+  isSaltySoil,
+  hasResidue,
+  repeatedHarvests,
+  soilHarvestSize,
+  isGuardedByLadybugs,
+  ladybugPlotIds,
+  DAMAGING_SEVERITY,
+  LADYBUG_RANGE,
+  PEST_EMOJIS,
+  PEST_NAMES,
+  NUTRIENTS,
+  NUTRIENT_SYMBOLS,
+  CLIMATES,
+  isFlowering,
+  bloomWindowText,
+  dayLength,
+  formatDate,
+  formatDayLength,
+  seasonOf,
+  SEASON_EMOJIS,
+  DAYS_PER_SEASON,
+  formatGenotype,
+  formatInbreeding,
+  fruitColor,
+  hasRecessiveColor,
+  inbreedingOf,
+  plantVigor,
+  isPlantType,
+  isSeedLotTool,
+  COMPOST_DAYS,
+  HIVE_PRICE,
+  PESTICIDE_PRICE,
+  formatMoney,
+  seedPrice,
+  plotPosition,
+  nextEventTick,
+  getSpecies,
+  syndromeOf,
+  selfFertilizationText,
+  BEE_FORAGING_RANGE,
+  POLLINATORS,
+  POLLINATOR_KINDS,
+  COMPANION_DESCRIPTIONS,
+  COMPANION_EMOJIS,
+  companionLinks,
+  DELAYS,
+  GAME_SPEEDS,
+  SPECIES_LIST,
+  TICK_MS,
+  WIND_DIRECTION_NAMES,
+  WIND_STRENGTH_NAMES,
+  type Clock,
+  type GameAction,
+  type GameSettings,
+  type GameState,
+  type GardenLayout,
+  type GardenSize,
+  type InventoryCounts,
+  type PlantSize,
+  type PlantType,
+  type Ripeness,
+  type SelectedTool,
+  type ToolType,
+  type WeatherType,
+  type Wind,
+  type WindDirection,
+} from './engine';
+import { AUTOSAVE_INTERVAL_MS, AUTOSAVE_SLOT, loadFromSlot, saveToSlot } from './persistence/localSlots';
+import { decodeSnapshotHash, hasSnapshotHash } from './persistence/snapshot';
+import { SaveFormatError } from './persistence/saveFormat';
+import { SaveSlotsPanel } from './components/SaveSlotsPanel';
+import { SnapshotPanel } from './components/SnapshotPanel';
+import { HivePanel } from './components/HivePanel';
+import { CompostPanel } from './components/CompostPanel';
+import { MarketPanel } from './components/MarketPanel';
+import { PedigreePanel } from './components/PedigreePanel';
+import { GardenSetupPanel } from './components/GardenSetupPanel';
 
 // New mapping for tool emojis for the selected tool indicator
 const TOOL_EMOJIS: Record<ToolType, string> = {
   regador: '🚿',
   adubo_organico: '💩',
+  adubo_quimico: '🧪',
   agrotoxico: '☠️',
   colher: '🧺',
   polinizacao_manual: '🖌️',
 };
 
-type PlantStage = 'sprout' | 'grown';
-
-interface PlantState {
-  instanceId: string;
-  type: PlantType;
-  stage: PlantStage;
-  phenotype: string;
-  parentIds: string[];
-  isSmall?: boolean;
-  isHybrid?: boolean;
-  isBoosted?: boolean;
-}
-
-interface PlotState {
-  id: number;
-  plant: PlantState | null;
-  isWatered: boolean;
-  hasOrganicFertilizer: boolean; // New: Can have organic fertilizer
-  hasChemicalFertilizer: boolean; // New: Can have chemical fertilizer
-  hasGreenManureFromBean: boolean; // NEW: Indicates green manure effect from beans
-}
-
-interface Connection {
-    from: number;
-    to: number;
-    type: 'Abóbora' | 'Girassol' | 'Maçã' | 'Milho';
-}
-
-// NEW: Type definition for inventory counts including pesticide status
-type InventoryCounts = {
-    plain: number;          // Plants without specific fertilizer types
-    organic: number;        // Plants with organic fertilizer or green manure effect
-    pesticide: number;      // Plants with chemical fertilizer (pesticide)
-};
-type InventoryState = Partial<Record<PlantType, Record<PlantSize, InventoryCounts>>>;
-
-
-interface Notification {
-    id: string;
-    title: string;
-    message: string;
-    timestamp: number;
-    isNew: boolean;
-    onDismiss?: () => void; // Adicionado callback opcional
-}
-
-interface PollenSack {
-  plant: PlantState;
-  sourcePlotId: number;
-}
+// Ready to pick, still green, or spoiling on the plant
+const RIPENESS_EMOJIS: Record<Ripeness, string> = { unripe: '⏳', ripe: '🧺', overripe: '⚠️' };
 
 interface ActiveBacterium {
-    id: string; // Unique ID for this animation instance
+    id: string; // Engine id of the bacterium trip
     plotId: number; // The plot it's targeting
     startX: number; // For animation positioning
     startY: number; // For animation positioning
@@ -99,73 +117,84 @@ interface ActiveBacterium {
     targetY: number; // For animation positioning
 }
 
-// Helper to generate a random starting forecast
-const generateInitialForecast = (): WeatherType[] => {
-    const weathers: WeatherType[] = ['sunny', 'sunny', 'raining', 'sunny_windy', 'raining_windy'];
-    // Simple shuffle
-    return Array.from({ length: 4 }, () => weathers[Math.floor(Math.random() * weathers.length)]);
+// One arrowhead per species, in its connection colour; ids can't rely on species names
+const arrowheadId = (type: PlantType) => `arrowhead-${SPECIES_LIST.findIndex(species => species.name === type)}`;
+
+const WIND_ARROWS: Record<WindDirection, string> = {
+  N: '⬆️', NE: '↗️', E: '➡️', SE: '↘️', S: '⬇️', SW: '↙️', W: '⬅️', NW: '↖️',
 };
 
-const CONNECTION_STYLES: Record<Connection['type'], { color: string; marker: string }> = {
-    Abóbora: { color: '#FF8C00', marker: 'url(#arrowhead-pumpkin)' },
-    Girassol: { color: '#FFD700', marker: 'url(#arrowhead-sunflower)' },
-    Maçã: { color: '#ff4d4d', marker: 'url(#arrowhead-apple)' },
-    Milho: { color: '#fefcbf', marker: 'url(#arrowhead-corn)' },
+// Screen angles clockwise from east, since rows grow downwards
+const WIND_ANGLES: Record<WindDirection, number> = {
+  E: 0, SE: 45, S: 90, SW: 135, W: 180, NW: 225, N: 270, NE: 315,
+};
+
+const wallClock = (): Clock => ({ wallTime: Date.now(), random: Math.random });
+
+// Resume the last session if there is one; a broken autosave just starts a new game
+const loadInitialGame = (): GameState => {
+  try {
+    return loadFromSlot(AUTOSAVE_SLOT) ?? createInitialState(wallClock());
+  } catch {
+    return createInitialState(wallClock());
+  }
 };
 
 
 const App = () => {
-  const [selectedTool, setSelectedTool] = useState<PlantType | ToolType | null>(null);
-  const [garden, setGarden] = useState<PlotState[]>(
-    Array.from({ length: 16 }, (_, i) => ({ id: i, plant: null, isWatered: false, hasOrganicFertilizer: false, hasChemicalFertilizer: false, hasGreenManureFromBean: false }))
-  );
-  const [inventory, setInventory] = useState<InventoryState>({});
+  const [selectedTool, setSelectedTool] = useState<SelectedTool>(null);
+  const [game, setGame] = useState<GameState>(loadInitialGame);
   const [isInstructionsOpen, setInstructionsOpen] = useState(true);
-  const [animatingPlots, setAnimatingPlots] = useState<number[]>([]);
-  const [fertilizingPlots, setFertilizingPlots] = useState<number[]>([]);
-  
-  // State to track the most recently grown plant to trigger reproduction logic for non-beans
-  const [lastGrownId, setLastGrownId] = useState<number | null>(null);
-
-  // --- NOTIFICATION SYSTEM ---
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [modalStack, setModalStack] = useState<Notification[]>([]);
   const [isHistoryOpen, setHistoryOpen] = useState(false);
-  
-  // --- WEATHER SYSTEM ---
-  const [weather, setWeather] = useState<WeatherType>('sunny');
-  const [forecast, setForecast] = useState<WeatherType[]>(generateInitialForecast());
-
-  // --- MANUAL POLLINATION ---
-  const [pollenSack, setPollenSack] = useState<PollenSack | null>(null);
-  
-  // --- BEAN BACTERIUM ANIMATION ---
+  const [isSavePanelOpen, setSavePanelOpen] = useState(false);
+  const [isSnapshotPanelOpen, setSnapshotPanelOpen] = useState(false);
+  const [isHivePanelOpen, setHivePanelOpen] = useState(false);
+  const [isCompostPanelOpen, setCompostPanelOpen] = useState(false);
+  const [isMarketPanelOpen, setMarketPanelOpen] = useState(false);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [pedigreePlantId, setPedigreePlantId] = useState<string | null>(null);
+  const [isGardenSetupOpen, setGardenSetupOpen] = useState(false);
   const [activeBacteriumAnimations, setActiveBacteriumAnimations] = useState<ActiveBacterium[]>([]);
-  const newlyGrownBeansQueue = useRef(new Set<number>()); // Use a Set for unique plot IDs
-  const [beanProcessingTrigger, setBeanProcessingTrigger] = useState(0); // Trigger to process beans
-
-  // Animation state
-  const [beeState, setBeeState] = useState<BeeState>('hidden');
-  const [manualBeeMode, setManualBeeMode] = useState(false); // New state for manual bee button
-  const [isWindy, setIsWindy] = useState(false);
-  const [isPollinating, setIsPollinating] = useState(false);
-  const [activeConnections, setActiveConnections] = useState<Connection[]>([]);
-  const [reproductionTrigger, setReproductionTrigger] = useState(0);
-
-  const cornTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const reproducedPlantsRef = useRef<Set<string>>(new Set());
-  const growingSproutsRef = useRef(new Set<number>());
-  const prevWeatherRef = useRef<WeatherType | undefined>(undefined);
-
-  const hasSunflowers = garden.some(plot => plot.plant?.type === 'Girassol' && plot.plant.stage === 'grown');
-  // Check for any chemical pesticides in the garden
-  const hasPesticides = garden.some(plot => plot.hasChemicalFertilizer);
-
-  // Derived state for Corn Hint Effect
-  const cornPlots = garden.filter(plot => plot.plant?.type === 'Milho');
-  const cornCount = cornPlots.length;
-  // Check if there is exactly 1 corn and it is fully grown
-  const isSingleGrownCorn = cornCount === 1 && cornPlots[0].plant?.stage === 'grown';
+
+  // All game rules live in the engine; the UI only dispatches actions and renders
+  const dispatch = useCallback((action: GameAction) => {
+    setGame(prev => step(prev, action, wallClock()));
+  }, []);
+
+  const {
+    gardenSize,
+    garden,
+    inventory,
+    seedBank,
+    compost,
+    market,
+    climate,
+    seed,
+    day,
+    isNight,
+    weather,
+    wind,
+    forecast,
+    pollinators,
+    manualBeeMode,
+    pollenSack,
+    notifications,
+    modalStack,
+    activeConnections,
+    animatingPlots,
+    fertilizingPlots,
+    bacteria,
+    isPollinating,
+    scheduler,
+  } = game;
+
+  const isWindy = isWindyWeather(weather);
+  const topModal = notifications.find(n => n.id === modalStack[0]);
+  const hasNextEvent = nextEventTick(game) !== null;
+  const ladybugHomes = ladybugPlotIds(game);
+  const companions = companionLinks(game);
+  const selectedLot = isSeedLotTool(selectedTool) ? seedBank.find(lot => lot.id === selectedTool.seedLotId) : undefined;
+  const pollinatorKinds = POLLINATOR_KINDS.filter(kind => pollinators.some(agent => agent.kind === kind && !agent.isDying));
 
   // --- MOBILE UI STATES ---
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 900);
@@ -180,1012 +209,150 @@ const App = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Helper to add notifications - Agora aceita um callback onDismiss
-  const addNotification = useCallback((title: string, message: string, onDismiss?: () => void) => {
-      const newNote: Notification = {
-          id: Date.now().toString() + Math.random(),
-          title,
-          message,
-          timestamp: Date.now(),
-          isNew: true,
-          onDismiss, // Armazena o callback
-      };
-
-      setNotifications(prev => [newNote, ...prev]);
-
-      // Adiciona ao topo da pilha de modais
-      setModalStack(prev => [newNote, ...prev]);
+  // --- AUTOSAVE ---
+  const gameRef = useRef(game);
+  gameRef.current = game;
 
-      return newNote.id; // Retorna o ID para possível rastreamento
+  useEffect(() => {
+    const autosave = () => {
+      try {
+        saveToSlot(AUTOSAVE_SLOT, gameRef.current);
+      } catch {
+        // Full or blocked storage only costs this autosave; the next one tries again
+      }
+    };
+    const timer = setInterval(autosave, AUTOSAVE_INTERVAL_MS);
+    window.addEventListener('beforeunload', autosave);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('beforeunload', autosave);
+    };
   }, []);
-  
-  // Função para fechar o modal superior e executar seu callback onDismiss
-  const closeTopModal = useCallback(() => {
-    setModalStack(prev => {
-        const modalToClose = prev[0]; // Obtém o modal superior antes de fatiar
-        const newStack = prev.slice(1);
 
-        if (modalToClose && modalToClose.onDismiss) {
-            modalToClose.onDismiss(); // Executa o callback
-        }
-        return newStack;
-    });
+  const importLayout = useCallback((layout: GardenLayout) => {
+    setGame(createStateFromLayout(wallClock(), layout));
   }, []);
 
+  // A shared link (#horta=...) replaces the current garden with the teacher's layout
+  useEffect(() => {
+    if (!hasSnapshotHash(window.location.hash)) return;
+    const hash = window.location.hash;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+    decodeSnapshotHash(hash)
+      .then(importLayout)
+      .catch(e => {
+        setSnapshotError(e instanceof SaveFormatError ? e.message : 'Não foi possível abrir o link da horta.');
+        setSnapshotPanelOpen(true);
+      });
+  }, [importLayout]);
+
+  // Real time only feeds the scheduler; pause and speed are decided by the engine
+  useEffect(() => {
+    const timer = setInterval(() => dispatch({ type: 'tick' }), TICK_MS);
+    return () => clearInterval(timer);
+  }, [dispatch]);
+
+  // Fecha o modal superior; o motor executa a ação associada a ele
+  const closeTopModal = useCallback(() => {
+    dispatch({ type: 'dismissModal' });
+  }, [dispatch]);
+
   const handleOpenHistory = () => {
       setHistoryOpen(!isHistoryOpen);
       if (!isHistoryOpen) {
           // Mark all as read (visually) when opening
-          setNotifications(prev => prev.map(n => ({ ...n, isNew: false })));
+          dispatch({ type: 'markNotificationsRead' });
       }
   };
 
   const unreadCount = notifications.filter(n => n.isNew).length;
 
-  const findEmptySpot = useCallback((centerId: number, currentGarden: PlotState[]): number | null => {
-    const size = 4;
-    const row = Math.floor(centerId / size);
-    const col = centerId % size;
-
-    // 1. Try neighbors first
-    for (let dr = -1; dr <= 1; dr++) {
-        for (let dc = -1; dc <= 1; dc++) {
-            if (dr === 0 && dc === 0) continue;
-            const newRow = row + dr;
-            const newCol = col + dc;
-             if (newRow >= 0 && newRow < size && newCol >= 0 && newCol < size) {
-                const neighborId = newRow * size + newCol;
-                if (!currentGarden[neighborId].plant) {
-                    return neighborId;
-                }
-            }
-        }
-    }
-
-    // 2. If no neighbors, find any empty spot
-    const anyEmpty = currentGarden.find(p => !p.plant);
-    return anyEmpty ? anyEmpty.id : null;
-  }, []);
-
-  const createPlant = (type: PlantType, parentIds: string[] = [], isSmall: boolean = false, isHybrid: boolean = false): PlantState => {
-    const phenotype = PLANT_CONFIG[type].phenotype;
-    return { 
-        instanceId: Math.random().toString(36).substring(2, 9),
-        type, 
-        stage: 'sprout', 
-        phenotype, 
-        parentIds,
-        isSmall,
-        isHybrid,
-        isBoosted: false
-    };
-  };
-
-  // Logic for determining offspring genetics (Size rules)
-  const determineOffspringGenetics = useCallback((plantA: PlantState, plantB: PlantState) => {
-      let isInbreeding = false;
-      let isHybrid = false;
-
-      // Check for inbreeding first
-      const isAparentOfB = plantB.parentIds?.includes(plantA.instanceId);
-      const isBparentOfA = plantA.parentIds?.includes(plantB.instanceId);
-      const isSelf = plantA.instanceId === plantB.instanceId;
-      
-      // NEW: Check for common immediate parents
-      const commonParents = (plantA.parentIds || []).filter(id => (plantB.parentIds || []).includes(id));
-      const hasCommonImmediateParent = commonParents.length > 0;
-
-      isInbreeding = isAparentOfB || isBparentOfA || isSelf || hasCommonImmediateParent;
-
-      // Hybrid vigor condition: both parents are small AND they are NOT inbred.
-      if (plantA.isSmall && plantB.isSmall && !isInbreeding) {
-          isHybrid = true;
-      }
-      
-      return { isInbreeding, isHybrid };
-  }, []);
-
-  // New function to handle the entire bean growth and reproduction sequence
-  const processBeanGrowth = useCallback((plotId: number, plantInstanceId: string) => {
-    const bacteriumAnimationId = Math.random().toString(36).substring(2, 9);
-    
-    // Set initial bacterium animation, actual positioning done in useEffect
-    setActiveBacteriumAnimations(prev => [...prev, { id: bacteriumAnimationId, plotId, startX: 0, startY: 0, targetX: 0, targetY: 0 }]);
-    setAnimatingPlots(prev => [...prev, plotId]); // Add plot to animating
-
-    setTimeout(() => {
-        // Remove bacterium animation
-        setActiveBacteriumAnimations(prev => prev.filter(anim => anim.id !== bacteriumAnimationId));
-        setAnimatingPlots(prev => prev.filter(pId => pId !== plotId)); // Remove plot from animating
-
-        setGarden(currentGarden => {
-            const targetPlot = currentGarden.find(p => p.id === plotId);
-            if (targetPlot?.plant?.instanceId === plantInstanceId) {
-                return currentGarden.map(p =>
-                    p.id === plotId
-                        ? { ...p, plant: { ...p.plant!, isBoosted: true } }
-                        : p
-                );
-            }
-            return currentGarden;
-        });
-        addNotification(
-            "Fixação de Nitrogênio 🦠",
-            "As raízes do feijão soltam substâncias químicas no solo que atraem bactérias do gênero Rhizobium. A bactéria possui uma enzima chamada nitrogenase, que faz a mágica: Transforma N₂ do ar → em NH₃ (amônia)"
-        );
-
-        // --- SELF-POLLINATION (after fixation) ---
-        setTimeout(() => {
-            setGarden(currentGarden => { // Using a fresh state for verification
-                const plantStillThere = currentGarden[plotId]?.plant?.instanceId === plantInstanceId;
-                
-                if (plantStillThere) {
-                    setAnimatingPlots(prev => [...prev, plotId]); // Start animation for self-pollination effect
-                    
-                    setTimeout(() => {
-                        setAnimatingPlots(prev => prev.filter(pId => pId !== plotId));
-                        
-                        let wasPlantAdded = false; // Flag to capture if plant was added
-
-                        setGarden(innerGarden => { // Use innerGarden to avoid stale closure
-                            const parentPlot = innerGarden[plotId];
-                            if (!parentPlot?.plant || parentPlot.plant.instanceId !== plantInstanceId) {
-                                return innerGarden;
-                            }
-
-                            const emptySpotId = findEmptySpot(plotId, innerGarden);
-                            
-                            if (emptySpotId !== null) {
-                                const newGarden = [...innerGarden];
-                                newGarden[emptySpotId].plant = createPlant(
-                                    'Feijão',
-                                    [plantInstanceId],
-                                    false,
-                                    false
-                                );
-                                wasPlantAdded = true; // Set flag
-                                return newGarden;
-                            }
-                            return innerGarden;
-                        });
-                        
-                        // Use the captured flag to determine notification
-                        if (wasPlantAdded) {
-                            addNotification("Auto-fecundação (Feijão) 🫘", "O feijão se auto polinizou. É predominantemente autógamo, a fecundação ocorre dentro da mesma flor ainda fechada.");
-                        } else {
-                            addNotification("Sem Espaço para Auto-fecundação (Feijão) 🫘", "O feijão tentou se auto-polinizar, mas não havia espaço no jardim para um novo broto.");
-                        }
-                    }, 1500); // Duration for self-pollination visual effect
-                }
-                return currentGarden; // Ensure previous garden state is passed through if no changes
-            });
-        }, 15000); // 15 seconds for self-pollination after nitrogen fixation
-
-    }, 6000); // Animation duration for bacterium
-  }, [addNotification, findEmptySpot]); // Dependencies for processBeanGrowth
-
-  const growPlant = useCallback((plotId: number) => {
-    if (growingSproutsRef.current.has(plotId)) return;
-    growingSproutsRef.current.add(plotId);
-
-    setTimeout(() => {
-        let plantGrew = false;
-        let plantType: PlantType | null = null;
-        setGarden(currentGarden => {
-            const plot = currentGarden.find(p => p.id === plotId);
-            if (plot?.plant?.stage === 'sprout') {
-                plantGrew = true;
-                plantType = plot.plant.type; // Capture type here
-                return currentGarden.map(p =>
-                    p.id === plotId ? { ...p, plant: { ...p.plant, stage: 'grown' as const } } : p
-                );
-            }
-            return currentGarden;
-        });
-
-        if (plantGrew) {
-            if (plantType === 'Feijão') {
-                newlyGrownBeansQueue.current.add(plotId);
-                setBeanProcessingTrigger(prev => prev + 1); // Trigger the processing effect for beans
-            } else {
-                setLastGrownId(plotId); // Only for non-bean plants
-            }
-        }
-        growingSproutsRef.current.delete(plotId);
-    }, 2000);
-  }, [setLastGrownId]); // setLastGrownId is a stable state setter, no need in dependency array
-
-  // Effect to process the queue of newly grown beans
-  useEffect(() => {
-    if (newlyGrownBeansQueue.current.size === 0) return;
-
-    // Get the first plotId from the queue
-    const plotId = newlyGrownBeansQueue.current.values().next().value;
-    if (plotId === undefined) return; // Should not happen with size check
-
-    const grownPlot = garden[plotId];
-    if (!grownPlot || !grownPlot.plant || grownPlot.plant.stage !== 'grown') {
-        newlyGrownBeansQueue.current.delete(plotId); // Remove invalid entry
-        setBeanProcessingTrigger(prev => prev + 1); // Re-trigger to check next item
-        return;
-    }
-    
-    // Call the dedicated processing function for this bean
-    processBeanGrowth(plotId, grownPlot.plant.instanceId);
-
-    // Remove it from the queue immediately after initiating its process
-    newlyGrownBeansQueue.current.delete(plotId);
-
-    // Use a small delay and re-trigger if there are more beans in the queue
-    const timer = setTimeout(() => {
-      if (newlyGrownBeansQueue.current.size > 0) {
-        setBeanProcessingTrigger(prev => prev + 1); // Process next bean if available
-      }
-    }, 100); // Small delay to allow React to update
-    return () => clearTimeout(timer);
-
-  }, [beanProcessingTrigger, garden, processBeanGrowth]); // Dependencies for this effect
-
-
   // Effect to position the bacterium animations
   useEffect(() => {
     setActiveBacteriumAnimations(prevActiveAnimations => {
-        let updatedAnimations = false;
-        const newAnimations = prevActiveAnimations.map(bacterium => {
-            // Only position if start/target are not yet set (or a better flag)
-            // And if it targets a valid plot
-            if (bacterium.startX === 0 && bacterium.startY === 0) {
-                const plotElement = document.querySelector(`.garden-plot[aria-label^="Lote de terra ${bacterium.plotId + 1}"]`);
+        const stillActive = prevActiveAnimations.filter(anim => bacteria.some(b => b.id === anim.id));
+        const newAnimations = bacteria
+            .filter(b => !stillActive.some(anim => anim.id === b.id))
+            .map((bacterium): ActiveBacterium | null => {
+                const plotElement = document.querySelector(`.garden-plot[data-plot-id="${bacterium.plotId}"]`);
                 const appContainer = document.querySelector('.app-container');
-                
-                if (plotElement && appContainer) {
-                    const plotRect = plotElement.getBoundingClientRect();
-                    const appRect = appContainer.getBoundingClientRect();
-
-                    const targetX = (plotRect.left - appRect.left) + (plotRect.width / 2);
-                    const targetY = (plotRect.top - appRect.top) + (plotRect.height / 2);
-
-                    const startSide = Math.floor(Math.random() * 4);
-                    let startX, startY;
-
-                    switch(startSide) {
-                        case 0: // Top
-                            startX = Math.random() * appRect.width;
-                            startY = -50;
-                            break;
-                        case 1: // Right
-                            startX = appRect.width + 50;
-                            startY = Math.random() * appRect.height;
-                            break;
-                        case 2: // Bottom
-                            startX = Math.random() * appRect.width;
-                            startY = appRect.height + 50;
-                            break;
-                        default: // Left
-                            startX = -50;
-                            startY = Math.random() * appRect.height;
-                    }
-                    updatedAnimations = true;
-                    return { ...bacterium, startX, startY, targetX, targetY };
+                if (!plotElement || !appContainer) return null;
+
+                const plotRect = plotElement.getBoundingClientRect();
+                const appRect = appContainer.getBoundingClientRect();
+
+                const targetX = (plotRect.left - appRect.left) + (plotRect.width / 2);
+                const targetY = (plotRect.top - appRect.top) + (plotRect.height / 2);
+
+                const startSide = Math.floor(Math.random() * 4);
+                let startX, startY;
+
+                switch(startSide) {
+                    case 0: // Top
+                        startX = Math.random() * appRect.width;
+                        startY = -50;
+                        break;
+                    case 1: // Right
+                        startX = appRect.width + 50;
+                        startY = Math.random() * appRect.height;
+                        break;
+                    case 2: // Bottom
+                        startX = Math.random() * appRect.width;
+                        startY = appRect.height + 50;
+                        break;
+                    default: // Left
+                        startX = -50;
+                        startY = Math.random() * appRect.height;
                 }
-            }
-            return bacterium;
-        });
-        return updatedAnimations ? newAnimations : prevActiveAnimations;
-    });
-  }, [activeBacteriumAnimations]); // Only re-run when activeBacteriumAnimations state changes
-
+                return { ...bacterium, startX, startY, targetX, targetY };
+            })
+            .filter((anim): anim is ActiveBacterium => anim !== null);
 
-    const checkCornPollination = useCallback(() => {
-        let pollinationHappened = false;
-        setGarden(currentGarden => {
-            const availableCorns = currentGarden.filter(p =>
-                p.plant?.type === 'Milho' &&
-                p.plant.stage === 'grown' &&
-                !reproducedPlantsRef.current.has(p.plant.instanceId)
-            );
-
-            if (availableCorns.length < 2) {
-                return currentGarden;
-            }
-
-            const shuffledCorns = [...availableCorns].sort(() => 0.5 - Math.random());
-            const availableSpots = currentGarden
-                .map((plot, id) => !plot.plant ? id : -1)
-                .filter(id => id !== -1)
-                .sort(() => 0.5 - Math.random());
-
-            const pairs = [];
-            for (let i = 0; i < Math.floor(shuffledCorns.length / 2); i++) {
-                pairs.push([shuffledCorns[i * 2], shuffledCorns[i * 2 + 1]]);
-            }
-            
-            if (pairs.length === 0) return currentGarden;
-
-            const newPlantsInfo: { plotId: number; plant: PlantState; isHybrid: boolean; isInbreeding: boolean }[] = [];
-            const newConnections: Connection[] = [];
-            
-            pairs.forEach((pair) => {
-                if (availableSpots.length === 0) return;
-
-                const [cornA, cornB] = pair;
-                const emptySpotId = availableSpots.pop();
-
-                if (emptySpotId !== undefined && cornA.plant && cornB.plant) {
-                    reproducedPlantsRef.current.add(cornA.plant.instanceId);
-                    reproducedPlantsRef.current.add(cornB.plant.instanceId);
-
-                    newConnections.push({ from: cornA.id, to: cornB.id, type: 'Milho' });
-                    newConnections.push({ from: cornB.id, to: cornA.id, type: 'Milho' });
-
-                    const { isInbreeding, isHybrid } = determineOffspringGenetics(cornA.plant, cornB.plant);
-                    const newPlant = createPlant('Milho', [cornA.plant.instanceId, cornB.plant.instanceId], isInbreeding, isHybrid);
-                    newPlantsInfo.push({ plotId: emptySpotId, plant: newPlant, isHybrid, isInbreeding });
-                }
-            });
-
-            if (newConnections.length > 0) {
-              pollinationHappened = true;
-              setActiveConnections(newConnections);
-
-              setTimeout(() => {
-                  setActiveConnections([]);
-                  if (newPlantsInfo.length > 0) {
-                      setGarden(g => {
-                          const newGarden = [...g];
-                          newPlantsInfo.forEach(info => {
-                              if (!newGarden[info.plotId].plant) {
-                                  newGarden[info.plotId].plant = info.plant;
-                              }
-                          });
-                          return newGarden;
-                      });
-
-                      newPlantsInfo.forEach(info => {
-                          if (info.isHybrid) addNotification("Vigor Híbrido (Heterose) 🚀", "O cruzamento de duas plantas de linhagens distintas resultou em vigor híbrido!");
-                          else if (info.isInbreeding) addNotification("Depressão Endogâmica 🧬", "O vento cruzou plantas parentes, gerando uma menor.");
-                          else addNotification("Polinização do Milho 🌽", "O vento polinizou um par de milhos com sucesso!");
-                      });
-                  }
-              }, 3500);
-            }
-            
-            return currentGarden;
-        });
-
-        if (pollinationHappened) {
-            setIsPollinating(true);
-            setTimeout(() => setIsPollinating(false), 3500);
+        if (newAnimations.length === 0 && stillActive.length === prevActiveAnimations.length) {
+            return prevActiveAnimations;
         }
-
-    }, [determineOffspringGenetics, addNotification]);
-
-  const advanceWeather = useCallback(() => {
-    setForecast(currentForecast => {
-        const [nextWeather, ...rest] = currentForecast;
-        setWeather(nextWeather); // Update current weather
-        
-        // Add a new random forecast to the end
-        const weathers: WeatherType[] = ['sunny', 'sunny', 'raining', 'sunny_windy', 'raining_windy'];
-        const newRandomWeather = weathers[Math.floor(Math.random() * weathers.length)];
-        return [...rest, newRandomWeather];
+        return [...stillActive, ...newAnimations];
     });
-  }, []);
+  }, [bacteria]);
 
-  // Combined Weather Effects Logic
+  // Effect: Put down a seed lot once its last seed is sown
   useEffect(() => {
-    const prevWeather = prevWeatherRef.current;
-    
-    const isCurrentlyWindy = weather.includes('_windy');
-    const wasPreviouslyWindy = prevWeather ? prevWeather.includes('_windy') : false;
-    const isCurrentlyRaining = weather.includes('raining');
-    const wasPreviouslyRaining = prevWeather ? prevWeather.includes('raining') : false;
-
-    // --- Set visual state based on current weather ---
-    setIsWindy(isCurrentlyWindy);
-
-    // --- Handle weather change LOGIC ---
-
-    // RAIN LOGIC (runs if it is raining now)
-    if (isCurrentlyRaining) {
-        const dryPlots = garden.filter(p => !p.isWatered);
-        const sproutsOnWateredPlots = garden.filter(p => p.isWatered && p.plant?.stage === 'sprout');
-
-        sproutsOnWateredPlots.forEach(plot => {
-            growPlant(plot.id);
-        });
-
-        if (dryPlots.length > 0) {
-            setGarden(currentGarden => 
-                currentGarden.map(p => 
-                    !p.isWatered ? { ...p, isWatered: true } : p
-                )
-            );
-
-            const sproutsOnDryPlots = dryPlots.filter(p => p.plant?.stage === 'sprout');
-            sproutsOnDryPlots.forEach(plot => {
-                growPlant(plot.id);
-            });
-        }
-    }
-    // DRY PLOTS AFTER RAIN LOGIC (runs if it was raining, but not anymore)
-    else if (wasPreviouslyRaining && !isCurrentlyRaining) {
-        setGarden(currentGarden => 
-            currentGarden.map(p => ({ ...p, isWatered: false }))
-        );
+    if (isSeedLotTool(selectedTool) && !selectedLot) {
+      setSelectedTool(null);
     }
-
-    // WIND LOGIC
-    if (!wasPreviouslyWindy && isCurrentlyWindy) {
-        reproducedPlantsRef.current.clear();
-        const grownCorns = garden.filter(p => p.plant?.type === 'Milho' && p.plant.stage === 'grown');
-        if (grownCorns.length < 2) {
-            setIsPollinating(false);
-            setTimeout(() => addNotification("Vento sem Sementes 🌬️", "O vento soprou, mas não havia milhos suficientes para polinizar."), 1000);
-        } else {
-            checkCornPollination();
-        }
-    } 
-    else if (wasPreviouslyWindy && !isCurrentlyWindy) {
-        setIsPollinating(false);
-        reproducedPlantsRef.current.clear();
-    }
-
-    prevWeatherRef.current = weather;
-
-}, [weather, garden, addNotification, growPlant, checkCornPollination]);
-
-
-  // Effect 1: State Transitions based on Garden Conditions (Bees)
-  useEffect(() => {
-    if (hasPesticides) {
-        if (beeState === 'visible') {
-            setBeeState('dying');
-        }
-    } else {
-        // Bees appear if there are sunflowers OR if manually activated
-        const shouldHaveBees = hasSunflowers || manualBeeMode;
-
-        if (shouldHaveBees) {
-            if (beeState !== 'visible') {
-                setBeeState('visible');
-            }
-        } else {
-            if (beeState !== 'hidden') {
-                setBeeState('hidden');
-            }
-        }
-    }
-  }, [hasSunflowers, hasPesticides, beeState, manualBeeMode]);
-
-  // Effect 2: Animation Timer for Dying Bees
-  useEffect(() => {
-    if (beeState === 'dying') {
-        const timer = setTimeout(() => {
-            setBeeState('hidden');
-            // If manual mode was on, turn it off to reflect the "death" event, or keep it on?
-            // Let's keep the state simple: Pesticides override everything.
-            addNotification(
-                "Alerta Ambiental ⚠️",
-                "O uso de agrotóxicos afeta abelhas causando mortalidade, alterando seu comportamento e prejudicando a colônia."
-            );
-        }, 3500); 
-        return () => clearTimeout(timer);
-    }
-  }, [beeState, addNotification]);
-
-  // Effect 3: Corn Hint Timer
-  useEffect(() => {
-    if (isSingleGrownCorn) {
-        // If exactly one grown corn exists and timer isn't running, start it
-        if (!cornTimeoutRef.current) {
-            cornTimeoutRef.current = setTimeout(() => {
-                addNotification(
-                    "Dica do Milho 🌽",
-                    "Deseja plantar outra muda de milho? O milho prefere a fecundação cruzada. Sozinho ele tem dificuldade de se reproduzir. A parte masculina amadurece antes da feminina (protandria)"
-                );
-                cornTimeoutRef.current = null;
-            }, 30000); // 30 seconds
-        }
-    } else {
-        // If condition not met (0 corn, >1 corn, or 1 sprout), clear timer
-        if (cornTimeoutRef.current) {
-            clearTimeout(cornTimeoutRef.current);
-            cornTimeoutRef.current = null;
-        }
-    }
-
-    return () => {
-        if (cornTimeoutRef.current) {
-            clearTimeout(cornTimeoutRef.current);
-        }
-    };
-  }, [isSingleGrownCorn, cornCount, addNotification]);
+  }, [selectedTool, selectedLot]);
 
   // Effect: Clear pollen sack if tool changes
   useEffect(() => {
     if (selectedTool !== 'polinizacao_manual') {
-      setPollenSack(null);
+      dispatch({ type: 'clearPollenSack' });
     }
-  }, [selectedTool]);
-
-
-  const findNeighbor = (centerId: number, type: PlantType): number | null => {
-        const size = 4;
-        const row = Math.floor(centerId / size);
-        const col = centerId % size;
-        
-        // Check 8 neighbors
-        for (let dr = -1; dr <= 1; dr++) {
-            for (let dc = -1; dc <= 1; dc++) {
-                if (dr === 0 && dc === 0) continue;
-                const newRow = row + dr;
-                const newCol = col + dc;
-                if (newRow >= 0 && newRow < size && newCol >= 0 && newCol < size) {
-                    const neighborId = newRow * size + newCol;
-                    const neighborPlot = garden[neighborId];
-                    if (neighborPlot.plant?.stage === 'grown' && neighborPlot.plant.type === type) {
-                        return neighborId;
-                    }
-                }
-            }
-        }
-        return null;
-  };
+  }, [selectedTool, dispatch]);
 
-  // Reusable function for Pollination logic (Pumpkin, Apple, Sunflower)
-  // Returns true if a pollination was initiated
-  const tryPollination = useCallback((currentGarden: PlotState[], plantType: 'Abóbora' | 'Girassol' | 'Maçã') => {
-      if (beeState !== 'visible') return false;
-      
-      // 1. Identify seekers: Grown plants of type that haven't reproduced yet
-      const seekers = currentGarden.filter(p => 
-        p.plant?.type === plantType && 
-        p.plant.stage === 'grown' && 
-        !reproducedPlantsRef.current.has(p.plant.instanceId)
-      );
-
-      if (seekers.length === 0) return false;
-
-      // Process the first seeker found
-      const source = seekers[0];
-      const sourceId = source.plant!.instanceId;
-
-      // 2. Find a partner
-      // Potential partners: Any OTHER grown plant of same type.
-      // Priority: Unused ones (Seekers) > Used ones (Experienced)
-      let partners = currentGarden.filter(p => 
-        p.plant?.type === plantType && 
-        p.plant.stage === 'grown' && 
-        p.plant.instanceId !== sourceId
-      );
-
-      if (partners.length === 0) return false;
-
-      // Sort: Unused first (Seekers)
-      partners.sort((a, b) => {
-          const aUnused = !reproducedPlantsRef.current.has(a.plant!.instanceId);
-          const bUnused = !reproducedPlantsRef.current.has(b.plant!.instanceId);
-          if (aUnused && !bUnused) return -1;
-          if (!aUnused && bUnused) return 1;
-          return 0;
-      });
-
-      const partner = partners[0];
-      const partnerId = partner.plant!.instanceId;
-
-      // NEW: Check for parent-child incompatibility in Apples (Maçã)
-      if (plantType === 'Maçã') {
-        const isSourceParentOfPartner = partner.plant!.parentIds?.includes(source.plant!.instanceId);
-        const isPartnerParentOfSource = source.plant!.parentIds?.includes(partner.plant!.instanceId);
-        if (isSourceParentOfPartner || isPartnerParentOfSource) {
-            // Removed addNotification for automatic pollination
-            reproducedPlantsRef.current.add(sourceId); // Still mark source as used to avoid immediate re-attempt
-            reproducedPlantsRef.current.add(partnerId); // Mark partner too
-            return false; // Prevent pollination
-        }
-      }
-
-      // EXECUTE
-      setActiveConnections([{ from: source.id, to: partner.id, type: plantType }]);
-      setAnimatingPlots([source.id, partner.id]);
-
-      // Mark source as used immediately
-      reproducedPlantsRef.current.add(sourceId);
-      // If partner was also a seeker, mark them too so they don't initiate their own separate event immediately
-      if (!reproducedPlantsRef.current.has(partnerId)) {
-         reproducedPlantsRef.current.add(partnerId);
-      }
-
-      setTimeout(() => {
-          setActiveConnections([]);
-          setAnimatingPlots([]);
-
-          const emptySpotId = findEmptySpot(source.id, currentGarden);
-          
-          if (emptySpotId !== null) {
-              const { isInbreeding, isHybrid } = determineOffspringGenetics(source.plant!, partner.plant!);
-              
-              setGarden(prev => {
-                  const newGarden = [...prev];
-                  // Re-check if spot is still empty
-                  if (!newGarden[emptySpotId].plant) {
-                      newGarden[emptySpotId].plant = createPlant(
-                          plantType, 
-                          [sourceId, partnerId],
-                          isInbreeding, 
-                          isHybrid
-                      );
-                  }
-                  return newGarden;
-              });
-
-              setTimeout(() => {
-                  if (isHybrid) {
-                      addNotification("Vigor Híbrido (Heterose) 🚀", "O cruzamento de duas plantas de linhagens distintas resultou em vigor híbrido!");
-                  } else if (isInbreeding) {
-                      addNotification("Depressão Endogâmica 🧬", "Sua planta diminuiu! O cruzamento entre parentes próximos ou auto-fecundação aumentou a homozigose. Isso pode levar a perda de vigor.");
-                  } else {
-                      if (plantType === 'Abóbora') {
-                          addNotification("Polinização Cruzada (Abóbora) 🐝", "Graças às abelhas, o pólen viajou de uma flor para outra! Isso garante maior diversidade genética.");
-                      }
-                      if (plantType === 'Maçã') {
-                          addNotification("Polinização Cruzada (Maçã) 🐝🍎", "As abelhas viajaram pelo pomar e polinizaram suas macieiras com sucesso!");
-                      }
-                      if (plantType === 'Girassol') {
-                          addNotification("Polinização Solar (Girassol) 🌻🐝", "As abelhas transportaram pólen de girassol por todo o jardim! Sementes vigorosas e cheias foram geradas.");
-                      }
-                  }
-
-                  // Trigger check for next pair/seeker
-                  setReproductionTrigger(prev => prev + 1);
-              }, 500);
-          } else {
-              // Even if failed to plant, we consume the chance and move to next
-              setReproductionTrigger(prev => prev + 1);
-          }
-      }, 2000);
-
-      return true;
-  }, [beeState, determineOffspringGenetics, addNotification, findEmptySpot]);
-
-
-  // Effect: Check for Bee Pollination loop (Pumpkin, Apple, Sunflower)
-  // This runs when bees are visible or when the garden updates (via reproduction trigger)
-  useEffect(() => {
-      if (beeState === 'visible') {
-          const timer = setTimeout(() => {
-              // Try Pumpkin
-              const pumpkinSuccess = tryPollination(garden, 'Abóbora');
-              // Try Sunflower (Scenario A)
-              const sunflowerSuccess = tryPollination(garden, 'Girassol');
-
-              if (!pumpkinSuccess && !sunflowerSuccess) {
-                   // Try Apple
-                   tryPollination(garden, 'Maçã');
-              }
-          }, 500);
-          return () => clearTimeout(timer);
-      }
-  }, [beeState, garden, reproductionTrigger, tryPollination]);
-
-
-  // Effect 4: Reproduction Logic for non-bean plants (Triggered when a plant finishes growing)
-  useEffect(() => {
-    if (lastGrownId === null) return;
-
-    const grownPlot = garden[lastGrownId];
-    if (!grownPlot || !grownPlot.plant || grownPlot.plant.stage !== 'grown') {
-        setLastGrownId(null);
-        return;
-    }
-
-    const plantType = grownPlot.plant.type;
-    
-    // Immediate check for corn pollination when it grows during windy weather
-    if (plantType === 'Milho' && weather.includes('_windy')) {
-        checkCornPollination();
-    }
-
-
-    if (plantType === 'Abóbora') {
-        const currentPlantId = grownPlot.plant.instanceId;
-        setTimeout(() => {
-            setGarden(currentGarden => {
-                if (beeState === 'visible') {
-                    return currentGarden;
-                }
-                const parentPlot = currentGarden.find(p => p.id === lastGrownId);
-                if (!parentPlot || !parentPlot.plant || parentPlot.plant.instanceId !== currentPlantId || reproducedPlantsRef.current.has(currentPlantId)) {
-                    return currentGarden;
-                }
-                const hasPartner = currentGarden.some(p => p.plant?.type === 'Abóbora' && p.plant.stage === 'grown' && p.plant.instanceId !== currentPlantId);
-                if (hasPartner) {
-                    return currentGarden;
-                }
-                const emptySpotId = findEmptySpot(lastGrownId, currentGarden);
-                if (emptySpotId !== null) {
-                    reproducedPlantsRef.current.add(currentPlantId);
-                    // Notify here to ensure it's triggered when the logic branch is taken
-                    addNotification("Auto-polinização (Abóbora)", "Sem abelhas ou parceiros por perto, a planta se auto-fecundou. Isso aumenta a chance de depressão endogâmica.");
-                    const newGarden = [...currentGarden];
-                    newGarden[emptySpotId].plant = createPlant('Abóbora', [currentPlantId], true, false);
-                    return newGarden;
-                }
-                return currentGarden;
-            });
-        }, 30000);
-    } else if (plantType === 'Girassol') {
-        const currentPlantId = grownPlot.plant.instanceId;
-        setTimeout(() => {
-            setGarden(currentGarden => {
-                if (beeState === 'visible') {
-                    return currentGarden;
-                }
-                const parentPlot = currentGarden.find(p => p.id === lastGrownId);
-                if (!parentPlot || !parentPlot.plant || parentPlot.plant.instanceId !== currentPlantId || reproducedPlantsRef.current.has(currentPlantId)) {
-                    return currentGarden;
-                }
-                const hasPartner = currentGarden.some(p => p.plant?.type === 'Girassol' && p.plant.stage === 'grown' && p.plant.instanceId !== currentPlantId);
-                if (hasPartner) {
-                    return currentGarden;
-                }
-                const emptySpotId = findEmptySpot(lastGrownId, currentGarden);
-                if (emptySpotId !== null) {
-                    reproducedPlantsRef.current.add(currentPlantId);
-                    const newGarden = [...currentGarden];
-                    newGarden[emptySpotId].plant = createPlant('Girassol', [currentPlantId], true, false);
-                    
-                    // Trigger notification directly here for Sunflower
-                    addNotification("Auto-polinização (Girassol) 🌻", "Sem abelhas ou outros girassóis por perto, a planta se auto-polinizou. Isso gera sementes menores.");
-                    
-                    return newGarden;
-                }
-                return currentGarden;
-            });
-        }, 30000);
-    } else if (plantType === 'Maçã') {
-        // APPLE LOGIC
-        if (beeState === 'visible') {
-            setReproductionTrigger(prev => prev + 1);
-        }
-    }
-
-    setLastGrownId(null); // Reset trigger
-  }, [lastGrownId, garden, beeState, determineOffspringGenetics, addNotification, weather, checkCornPollination, findEmptySpot]);
-  
   const handlePlotClick = useCallback((plotId: number) => {
     // If a mobile panel is open, close it first.
     // BUT DO NOT return, continue processing the plot click.
     if (isMobile && activeMobilePanel !== null) {
       setActiveMobilePanel(null);
-      // Do not return here. The plot click logic should proceed.
     }
-
-    const plot = garden.find(p => p.id === plotId);
-    if (!plot) return;
-
-    if (selectedTool === 'polinizacao_manual') {
-        // --- MANUAL POLLINATION LOGIC ---
-        if (!pollenSack) {
-            // 1. COLLECT POLLEN
-            if (plot.plant && plot.plant.stage === 'grown') {
-                setPollenSack({ plant: plot.plant, sourcePlotId: plot.id });
-            }
-        } else {
-            // 2. APPLY POLLEN
-            const sourcePlant = pollenSack.plant;
-
-            // CASE A: Self-Pollination
-            if (pollenSack.sourcePlotId === plotId) {
-                if (sourcePlant.type === 'Maçã') {
-                    addNotification("Polinização Inválida 🍎", "Autoincompatibilidade gametofítica: impede que o próprio pólen fecunde as flores da mesma planta ou de plantas geneticamente muito próximas.");
-                    return;
-                }
-                
-                const emptySpotId = findEmptySpot(plotId, garden);
-                if (emptySpotId !== null) {
-                    const { isInbreeding, isHybrid } = determineOffspringGenetics(sourcePlant, sourcePlant);
-                    
-                    setGarden(prev => {
-                        const newGarden = [...prev];
-                        newGarden[emptySpotId].plant = createPlant(sourcePlant.type, [sourcePlant.instanceId], isInbreeding, isHybrid);
-                        return newGarden;
-                    });
-                    
-                    addNotification("Autofecundação Manual 🖌️", `${sourcePlant.type} foi autofecundada com sucesso.`);
-                    setPollenSack(null);
-                } else {
-                    addNotification("Sem Espaço!", "Não há espaço para um novo broto.");
-                }
-            } 
-            // CASE B: Cross-Pollination
-            else if (plot.plant && plot.plant.stage === 'grown' && plot.plant.type === sourcePlant.type) {
-                const targetPlant = plot.plant;
-
-                // NEW: Check for parent-child incompatibility in Apples (Maçã) for manual pollination
-                if (sourcePlant.type === 'Maçã') {
-                    const isSourceParentOfTarget = targetPlant.parentIds?.includes(sourcePlant.instanceId);
-                    const isTargetParentOfSource = sourcePlant.parentIds?.includes(targetPlant.instanceId);
-                    if (isSourceParentOfTarget || isTargetParentOfSource) {
-                        addNotification("Polinização Inválida (Maçã) 🍎", "Autoincompatibilidade gametofítica: A polinização manual entre plantas parentes é evitada.");
-                        setPollenSack(null); // Clear pollen sack even on invalid attempt
-                        return; // Prevent pollination
-                    }
-                }
-
-                const emptySpotId = findEmptySpot(plotId, garden);
-
-                if (emptySpotId !== null) {
-                    const { isInbreeding, isHybrid } = determineOffspringGenetics(sourcePlant, targetPlant);
-
-                    setGarden(prev => {
-                        const newGarden = [...prev];
-                        newGarden[emptySpotId].plant = createPlant(sourcePlant.type, [sourcePlant.instanceId, targetPlant.instanceId], isInbreeding, isHybrid);
-                        return newGarden;
-                    });
-                    
-                    if (isHybrid) addNotification("Vigor Híbrido Manual 🚀", "A polinização manual entre as duas plantas gerou um híbrido!");
-                    else if (isInbreeding) addNotification("Endogamia Manual 🧬", "O cruzamento manual entre parentes gerou uma planta menor.");
-                    else addNotification("Polinização Cruzada Manual 🖌️", `${sourcePlant.type} foi polinizado com sucesso!`);
-                    
-                    setPollenSack(null);
-                } else {
-                    addNotification("Sem Espaço!", "Não há espaço para um novo broto.");
-                }
-            } else {
-                addNotification("Alvo Inválido", "Você só pode polinizar plantas adultas da mesma espécie.");
-            }
-        }
-    } else if (selectedTool === 'colher' && plot.plant) {
-        // --- UNIFIED HARVEST LOGIC ---
-        const harvestedPlot = plot; // The plot at the time of click
-        const harvestedPlant = harvestedPlot.plant!;
-        const type = harvestedPlant.type;
-
-        // 1. Calculate size and update inventory immediately based on the state AT CLICK TIME
-        // Only if it is grown
-        if (harvestedPlant.stage === 'grown') {
-            let size: PlantSize = 'normal';
-            const hasChemicalFertilizer = harvestedPlot.hasChemicalFertilizer; 
-            const hasOrganicFertilizer = harvestedPlot.hasOrganicFertilizer;
-            const hasGreenManureFromBean = harvestedPlot.hasGreenManureFromBean; // Also impacts organic effect
-
-            if (harvestedPlant.isHybrid || hasOrganicFertilizer || hasChemicalFertilizer || harvestedPlant.isBoosted || hasGreenManureFromBean) size = 'large';
-            else if (harvestedPlant.isSmall) size = 'small';
-
-            setInventory(currentInventory => {
-                const currentTypeInventory = currentInventory[type] || {};
-                const currentSizeCounts: InventoryCounts = currentTypeInventory[size] || { plain: 0, organic: 0, pesticide: 0 }; // Initialize with new structure
-                
-                let updatedCounts = { ...currentSizeCounts };
-
-                // Determine fertilizer category for the harvested plant
-                if (hasChemicalFertilizer) {
-                    updatedCounts.pesticide += 1;
-                } else if (hasOrganicFertilizer || hasGreenManureFromBean) {
-                    updatedCounts.organic += 1;
-                } else {
-                    updatedCounts.plain += 1;
-                }
-                
-                return {
-                    ...currentInventory,
-                    [type]: {
-                        ...currentTypeInventory,
-                        [size]: updatedCounts,
-                    }
-                };
-            });
-        }
-
-        // 2. Handle garden updates and side-effects
-        if (type === 'Feijão' && harvestedPlant.stage === 'grown') {
-            const otherPlantPlotIds = garden.filter(p => p.id !== plotId && p.plant).map(p => p.id);
-
-            // IMEDIATO: Feijão desaparece do campo
-            // Update: Reset fertilizer flags for the harvested plot
-            setGarden(currentGarden => currentGarden.map(p => (p.id === plotId ? { ...p, plant: null, isWatered: false, hasOrganicFertilizer: false, hasChemicalFertilizer: false, hasGreenManureFromBean: false } : p)));
-
-            // 1. Mostrar mensagem "Dica de Colheita (Feijão)"
-            addNotification(
-                "Dica de Colheita (Feijão) 🌱", 
-                "Corte a planta na superfície, deixando as raízes no solo. Os nódulos das bactérias ficam e liberam nitrogênio no solo.",
-                () => {
-                    // Este callback é executado quando a "Dica de Colheita" é dispensada
-                    // console.log("Dica de Colheita dismissed. Showing Adubação Verde...");
-                    // 2. Mostrar mensagem "Adubação Verde" - Envolvido em setTimeout para evitar race condition
-                    setTimeout(() => {
-                        addNotification(
-                            "Adubação Verde! 🌱✨",
-                            "As raízes do feijão liberaram nitrogênio, fertilizando todas as outras plantas na sua horta!",
-                            () => {
-                                // Este callback é executado quando a "Adubação Verde" é dispensada
-                                // console.log("Adubação Verde dismissed. Triggering animation...");
-
-                                if (otherPlantPlotIds.length > 0) {
-                                    setFertilizingPlots(otherPlantPlotIds); // Inicia a animação
-
-                                    setTimeout(() => {
-                                        setFertilizingPlots([]); // Termina a animação
-                                        setGarden(currentGarden => {
-                                            return currentGarden.map(p => {
-                                                if (otherPlantPlotIds.includes(p.id)) {
-                                                    // Update: Set NEW green manure flag
-                                                    return { ...p, hasGreenManureFromBean: true };
-                                                }
-                                                return p;
-                                            });
-                                        });
-                                        // console.log("Fertilization animation complete and fertilizer applied.");
-                                    }, 3500); // Duração da animação (1.5s) + um pequeno delay para garantir que seja visível
-                                } else {
-                                    addNotification("Sem Plantas para Adubar", "Não há outras plantas na horta para se beneficiar da adubação verde.");
-                                    // console.log("No other plants to fertilize.");
-                                }
-                            }
-                        );
-                    }, 0); // Pequeno atraso para garantir que o modal anterior seja fechado
-                }
-            );
-        } else {
-            // For other plants or sprouts, just update the garden immediately
-            // Update: Reset fertilizer flags
-            setGarden(currentGarden => currentGarden.map(p => (p.id === plotId ? { ...p, plant: null, isWatered: false, hasOrganicFertilizer: false, hasChemicalFertilizer: false, hasGreenManureFromBean: false } : p)));
-        }
-    } else {
-        // --- OTHER TOOLS LOGIC ---
-        setGarden(currentGarden => {
-            const newGarden = [...currentGarden];
-            const currentPlot = newGarden.find(p => p.id === plotId);
-            if (!currentPlot) return currentGarden;
-
-            // Reset green manure from bean if planting a new plant
-            if (selectedTool && Object.keys(PLANT_CONFIG).includes(selectedTool) && !currentPlot.plant) {
-                currentPlot.plant = createPlant(selectedTool as PlantType);
-                currentPlot.hasGreenManureFromBean = false; // New plant resets this
-                currentPlot.hasOrganicFertilizer = false;
-                currentPlot.hasChemicalFertilizer = false;
-
-                if (weather.includes('raining')) {
-                    currentPlot.isWatered = true;
-                    growPlant(currentPlot.id);
-                }
-                return newGarden;
-            }
-            
-            if (selectedTool === 'regador' && currentPlot.plant?.stage === 'sprout' && !currentPlot.isWatered) {
-                currentPlot.isWatered = true;
-                growPlant(currentPlot.id);
-                return newGarden;
-            }
-
-            if (selectedTool === 'adubo_organico' && currentPlot.plant) {
-                // Update: Set organic fertilizer flag, clear green manure from bean
-                currentPlot.hasOrganicFertilizer = true;
-                currentPlot.hasChemicalFertilizer = false; // Ensure mutual exclusivity
-                currentPlot.hasGreenManureFromBean = false;
-                return newGarden;
-            }
-
-            if (selectedTool === 'agrotoxico' && currentPlot.plant) {
-                // Update: Set chemical fertilizer flag, clear green manure from bean
-                currentPlot.hasChemicalFertilizer = true;
-                currentPlot.hasOrganicFertilizer = false; // Ensure mutual exclusivity
-                currentPlot.hasGreenManureFromBean = false;
-                return newGarden;
-            }
-            
-            return currentGarden;
-        });
+    // Without a tool in hand, clicking a plant shows where it came from
+    const plant = garden[plotId]?.plant;
+    if (selectedTool === null && plant) {
+      setPedigreePlantId(plant.instanceId);
+      return;
     }
-  }, [selectedTool, growPlant, weather, pollenSack, garden, determineOffspringGenetics, addNotification, isMobile, activeMobilePanel, findEmptySpot]);
+    dispatch({ type: 'clickPlot', plotId, tool: selectedTool });
+  }, [selectedTool, isMobile, activeMobilePanel, dispatch, garden]);
+
+  const advanceWeather = useCallback(() => {
+    dispatch({ type: 'advanceWeather' });
+  }, [dispatch]);
 
   // Helper to get coordinates for SVG line
   const getCoordinates = (index: number) => {
-    const col = index % 4;
-    const row = Math.floor(index / 4);
-    // Return center of the cell (0.5 to 3.5 range)
+    const { row, col } = plotPosition(gardenSize, index);
+    // Return center of the cell, in plot units
     return { x: col + 0.5, y: row + 0.5 };
   };
 
@@ -1194,47 +361,68 @@ const App = () => {
         case 'raining': return '🌧️';
         case 'sunny_windy': return '☀️🌬️';
         case 'raining_windy': return '🌧️🌬️';
+        case 'frost': return '❄️';
+        case 'drought': return '🏜️';
+        case 'storm': return '⛈️';
+        case 'heatwave': return '🌡️';
         default: return '☀️';
     }
   }
 
+  const renderWind = (dayWind: Wind | null) => dayWind && (
+    <span
+      className="wind-indicator"
+      data-tooltip={`Vento para o ${WIND_DIRECTION_NAMES[dayWind.towards]}, ${WIND_STRENGTH_NAMES[dayWind.strength]}`}
+    >
+      {WIND_ARROWS[dayWind.towards]}<small>{dayWind.strength}</small>
+    </span>
+  );
+
+  const renderCompostButton = (type: PlantType, size: PlantSize) => (
+    <button
+      className="compost-produce-button"
+      onClick={() => dispatch({ type: 'compostProduce', plantType: type, size })}
+      aria-label={`Levar ${type} para a composteira`}
+      data-tooltip="Levar uma para a composteira"
+    >
+      ♻️
+    </button>
+  );
+
   // Handle tool/seed selection and close mobile panel if active
-  const handleSelectTool = useCallback((tool: PlantType | ToolType | null) => {
+  const handleSelectTool = useCallback((tool: SelectedTool) => {
     setSelectedTool(tool);
     if (isMobile) {
       setActiveMobilePanel(null); // Close the panel on selection
     }
   }, [isMobile]);
 
-  // Helper to check if a bacterium animation is active on a specific plot
-  // This helper is now only used to know when to show the traveling bacterium, not to hide the plant.
-  const isBacteriumAnimatingOnPlot = useCallback((plotId: number) => {
-      return activeBacteriumAnimations.some(anim => anim.plotId === plotId);
-  }, [activeBacteriumAnimations]);
-
   return (
-    <div className={`app-container ${weather.includes('raining') ? 'is-raining' : ''} ${isMobile ? 'is-mobile' : ''}`}>
+    <div className={`app-container ${isRaining(weather) ? 'is-raining' : ''} ${isFrost(weather) ? 'is-frost' : ''} ${isMobile ? 'is-mobile' : ''} ${scheduler.paused ? 'is-paused' : ''}`}>
       {/* Wind Overlay */}
       {isWindy && (
           <div className={`wind-overlay ${isPollinating ? 'is-pollinating' : ''}`}>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              <div className="wind-line"></div>
-              {/* Pollen particles */}
-              <div className="wind-pollen"></div>
-              <div className="wind-pollen"></div>
-              <div className="wind-pollen"></div>
-              <div className="wind-pollen"></div>
-              <div className="wind-pollen"></div>
+              {/* Lines blow left to right; the field turns them towards where the wind goes */}
+              <div className="wind-field" style={{ '--wind-angle': `${wind ? WIND_ANGLES[wind.towards] : 0}deg` } as React.CSSProperties}>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  <div className="wind-line"></div>
+                  {/* Pollen particles */}
+                  <div className="wind-pollen"></div>
+                  <div className="wind-pollen"></div>
+                  <div className="wind-pollen"></div>
+                  <div className="wind-pollen"></div>
+                  <div className="wind-pollen"></div>
+              </div>
           </div>
       )}
       
@@ -1264,6 +452,41 @@ const App = () => {
             </svg>
             {unreadCount > 0 && <span className="notification-badge">{unreadCount}</span>}
           </button>
+          <button
+            className="save-menu-button"
+            onClick={() => setSavePanelOpen(true)}
+            aria-label="Jogos salvos"
+          >
+            💾
+          </button>
+          <button
+            className="save-menu-button"
+            onClick={() => setSnapshotPanelOpen(true)}
+            aria-label="Compartilhar horta"
+          >
+            🔗
+          </button>
+          <button
+            className="save-menu-button"
+            onClick={() => setHivePanelOpen(true)}
+            aria-label="Colmeia"
+          >
+            🐝
+          </button>
+          <button
+            className="save-menu-button"
+            onClick={() => setCompostPanelOpen(true)}
+            aria-label="Composteira"
+          >
+            🪱
+          </button>
+          <button
+            className="save-menu-button market-button"
+            onClick={() => setMarketPanelOpen(true)}
+            aria-label="Feira"
+          >
+            🏪 <span className="cash-amount">{formatMoney(market.cash)}</span>
+          </button>
 
           {isHistoryOpen && (
               <div className="history-panel">
@@ -1287,18 +510,69 @@ const App = () => {
           )}
       </div>
 
+      {/* GAME CLOCK CONTROLS */}
+      <div className="time-controls">
+          <button
+            className={`time-button ${scheduler.paused ? 'selected' : ''}`}
+            onClick={() => dispatch({ type: 'togglePause' })}
+            aria-pressed={scheduler.paused}
+            aria-label={scheduler.paused ? 'Continuar' : 'Pausar'}
+            data-tooltip={scheduler.paused ? 'Continuar' : 'Pausar'}
+          >
+            {scheduler.paused ? '▶️' : '⏸️'}
+          </button>
+          {GAME_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              className={`time-button speed-button ${scheduler.speed === speed ? 'selected' : ''}`}
+              onClick={() => dispatch({ type: 'setSpeed', speed })}
+              aria-pressed={scheduler.speed === speed}
+              aria-label={`Velocidade ${speed}×`}
+            >
+              {speed}×
+            </button>
+          ))}
+          <button
+            className="time-button"
+            onClick={() => dispatch({ type: 'skipToNextEvent' })}
+            disabled={!hasNextEvent}
+            aria-label="Pular para o próximo evento"
+            data-tooltip="Próximo evento"
+          >
+            ⏩
+          </button>
+          <button
+            className={`time-button ${isNight ? 'selected' : ''}`}
+            onClick={() => dispatch(isNight ? { type: 'advanceWeather' } : { type: 'nightfall' })}
+            aria-label={isNight ? 'Amanhecer' : 'Anoitecer'}
+            data-tooltip={isNight ? 'Amanhecer (próximo dia)' : 'Anoitecer'}
+          >
+            {isNight ? '☀️' : '🌙'}
+          </button>
+      </div>
+
       {/* WEATHER FORECAST UI */}
       {/* Desktop Version */}
       {!isMobile && (
         <div className="weather-forecast">
             <div className="forecast-now">
-                <span>Agora:</span>
+                <span className="forecast-climate" data-tooltip={`${CLIMATES[climate].name} · semente ${seed}`}>{CLIMATES[climate].emoji}</span>
+                <span className="forecast-date" data-tooltip={`Dia com ${formatDayLength(dayLength(day))} de luz`}>
+                    {SEASON_EMOJIS[seasonOf(day)]} {formatDate(day)}
+                </span>
                 <span className="weather-icon">{getWeatherIcon(weather)}</span>
+                {renderWind(wind)}
             </div>
             <div className="forecast-future">
                 {forecast.map((fc, index) => (
-                    <div key={index} className="forecast-item">
-                        <span className="weather-icon">{getWeatherIcon(fc)}</span>
+                    <div
+                      key={index}
+                      className="forecast-item"
+                      title={`${formatDate(day + index + 1)} · ${formatDayLength(dayLength(day + index + 1))} de luz`}
+                    >
+                        <span className="forecast-season">{SEASON_EMOJIS[seasonOf(day + index + 1)]}</span>
+                        <span className="weather-icon">{getWeatherIcon(fc.weather)}</span>
+                        {renderWind(fc.wind)}
                     </div>
                 ))}
             </div>
@@ -1318,9 +592,11 @@ const App = () => {
         <button
           className="mobile-weather-button"
           onClick={advanceWeather}
-          aria-label={`Tempo atual: ${weather}. Clique para avançar.`}
+          aria-label={`${formatDate(day)}. Tempo atual: ${weather}. Clique para avançar.`}
         >
+          <span className="forecast-season">{SEASON_EMOJIS[seasonOf(day)]}</span>
           <span className="weather-icon">{getWeatherIcon(weather)}</span>
+          {wind && <span className="wind-indicator">{WIND_ARROWS[wind.towards]}</span>}
         </button>
       )}
 
@@ -1329,25 +605,17 @@ const App = () => {
         <p>Plante, cuide e colha para ver a genética em ação!</p>
       </header>
       
-      <main className={`garden-container ${pollenSack ? 'carrying-pollen' : ''}`}>
-        {/* Connection Overlay for Corn and Pumpkin */}
-        <svg className="connection-overlay" viewBox="0 0 4 4" preserveAspectRatio="none">
+      <main className={`garden-container ${pollenSack ? 'carrying-pollen' : ''} ${isNight ? 'night' : ''}`}>
+        {/* Connection Overlay for animal and wind pollination */}
+        <svg className="connection-overlay" viewBox={`0 0 ${gardenSize.width} ${gardenSize.height}`} preserveAspectRatio="none">
              <defs>
-                <marker id="arrowhead-pumpkin" markerWidth="5" markerHeight="3.5" refX="4" refY="1.75" orient="auto">
-                    <polygon points="0 0, 5 1.75, 0 3.5" fill="#FF8C00" />
-                </marker>
-                <marker id="arrowhead-sunflower" markerWidth="5" markerHeight="3.5" refX="4" refY="1.75" orient="auto">
-                    <polygon points="0 0, 5 1.75, 0 3.5" fill="#FFD700" />
-                </marker>
-                <marker id="arrowhead-apple" markerWidth="5" markerHeight="3.5" refX="4" refY="1.75" orient="auto">
-                    <polygon points="0 0, 5 1.75, 0 3.5" fill="#ff4d4d" />
-                </marker>
-                <marker id="arrowhead-corn" markerWidth="5" markerHeight="3.5" refX="4" refY="1.75" orient="auto">
-                    <polygon points="0 0, 5 1.75, 0 3.5" fill="#fefcbf" />
-                </marker>
+                {SPECIES_LIST.map(species => (
+                    <marker key={species.name} id={arrowheadId(species.name)} markerWidth="5" markerHeight="3.5" refX="4" refY="1.75" orient="auto">
+                        <polygon points="0 0, 5 1.75, 0 3.5" fill={species.connectionColor} />
+                    </marker>
+                ))}
             </defs>
             {activeConnections.map((conn, index) => {
-                const style = CONNECTION_STYLES[conn.type];
                 return (
                     <line 
                         key={index}
@@ -1355,64 +623,188 @@ const App = () => {
                         y1={getCoordinates(conn.from).y} 
                         x2={getCoordinates(conn.to).x} 
                         y2={getCoordinates(conn.to).y} 
-                        className={`connection-line ${conn.type === 'Milho' ? 'corn-connection' : 'bee-connection'}`}
-                        stroke={style.color}
-                        markerEnd={style.marker}
+                        className={`connection-line ${syndromeOf(conn.type) === 'wind' ? 'wind-connection' : `${conn.pollinator ?? 'bee'}-connection`}`}
+                        stroke={getSpecies(conn.type).connectionColor}
+                        markerEnd={`url(#${arrowheadId(conn.type)})`}
                     />
                 );
             })}
+            {pollinators.map(agent => (
+                <polyline
+                    key={agent.id}
+                    className={`pollinator-trail ${agent.kind}-trail`}
+                    points={agent.path.map(plotId => `${getCoordinates(plotId).x},${getCoordinates(plotId).y}`).join(' ')}
+                />
+            ))}
+            {companions.map(({ from, to, effect }) => (
+                <line
+                    key={`${from}-${to}-${effect}`}
+                    x1={getCoordinates(from).x}
+                    y1={getCoordinates(from).y}
+                    x2={getCoordinates(to).x}
+                    y2={getCoordinates(to).y}
+                    className={`companion-link companion-${effect}`}
+                />
+            ))}
         </svg>
 
-        <div className="garden-grid">
+        {/* Companion effects sit between the two neighbours */}
+        <div className="companion-layer">
+            {companions.map(({ from, to, effect }) => {
+                const a = getCoordinates(from);
+                const b = getCoordinates(to);
+                return (
+                    <span
+                        key={`${from}-${to}-${effect}`}
+                        className={`companion-badge companion-${effect}`}
+                        style={{
+                            left: `${((a.x + b.x) / 2 / gardenSize.width) * 100}%`,
+                            top: `${((a.y + b.y) / 2 / gardenSize.height) * 100}%`,
+                        }}
+                        title={`${game.garden[from].plant!.type} ${COMPANION_DESCRIPTIONS[effect]} (${game.garden[to].plant!.type})`}
+                    >
+                        {COMPANION_EMOJIS[effect]}
+                    </span>
+                );
+            })}
+        </div>
+
+        {/* Pollinators fly between the plots they actually visit */}
+        <div className="pollinator-layer" aria-hidden="true">
+            {pollinators.map(agent => {
+                const { x, y } = getCoordinates(agent.plotId);
+                const { name, emoji, range } = POLLINATORS[agent.kind];
+                return (
+                    <div
+                        key={agent.id}
+                        className={`pollinator ${agent.kind} ${agent.isDying ? 'dying' : ''} ${agent.pollen ? 'with-pollen' : ''}`}
+                        style={{
+                            left: `${(x / gardenSize.width) * 100}%`,
+                            top: `${(y / gardenSize.height) * 100}%`,
+                            transitionDuration: `${(DELAYS.pollinatorFlight * TICK_MS) / scheduler.speed}ms`,
+                        }}
+                        title={`${name}: voa até ${range} lotes de casa${agent.pollen ? ` levando pólen de ${agent.pollen.plant.type}` : ''}`}
+                    >
+                        <span className="pollinator-body">{emoji}</span>
+                    </div>
+                );
+            })}
+        </div>
+
+        {pollinatorKinds.length > 0 && (
+            <ul className="pollinator-legend" aria-label="Polinizadores na horta">
+                {pollinatorKinds.map(kind => (
+                    <li key={kind} className={`${kind}-legend`}>
+                        <span className="emoji">{POLLINATORS[kind].emoji}</span> {POLLINATORS[kind].plural}
+                    </li>
+                ))}
+            </ul>
+        )}
+
+        <div
+          className="garden-grid"
+          style={{ '--garden-columns': gardenSize.width, '--garden-rows': gardenSize.height } as React.CSSProperties}
+        >
           {garden.map(plot => {
             // Fix: Re-writing the div's attributes to resolve "multiple attributes with the same name" error.
             // This ensures no hidden duplicate attributes exist.
             const plotClassName = [
               'garden-plot',
-              plot.isWatered ? 'watered' : '',
-              plot.hasChemicalFertilizer ? 'chemical-soil' : '',
+              plot.isDisabled ? 'disabled-plot' : '',
+              isMoist(plot) ? 'watered' : '',
+              isTooDry(plot) ? 'dry-soil' : '',
+              isWaterlogged(plot) ? 'waterlogged' : '',
+              hasResidue(plot) ? 'chemical-soil' : '',
+              isSaltySoil(plot) ? 'salty-soil' : '',
+              plot.plant?.infestation ? 'infested' : '',
               animatingPlots.includes(plot.id) ? 'combining' : '',
               fertilizingPlots.includes(plot.id) ? 'fertilizing-effect' : '',
               pollenSack?.sourcePlotId === plot.id ? 'pollen-source' : ''
             ].filter(Boolean).join(' ');
 
-            const plotAriaLabel = `Lote de terra ${plot.id + 1}. ${plot.plant ? `Contém ${plot.plant.phenotype}` : 'Vazio'}`;
+            const soilText = `${NUTRIENTS.map(nutrient => `${NUTRIENT_SYMBOLS[nutrient]} ${Math.round(plot.soil[nutrient])}`).join(' · ')} · matéria orgânica ${Math.round(plot.soil.organicMatter)}${plot.soil.salinity > 0 ? ` · sal ${Math.round(plot.soil.salinity)}` : ''}`;
+            const plotAriaLabel = `Lote de terra ${plot.id + 1}. ${plot.isDisabled ? 'Caminho' : `${plot.plant ? `Contém ${plot.plant.phenotype}, ${STAGE_NAMES[plot.plant.stage].toLowerCase()}` : plot.debris ? `Restos de ${plot.debris}` : 'Vazio'}. Umidade ${Math.round(plot.moisture)}%. Solo: ${soilText}`}`;
+            const repeats = plot.plant ? repeatedHarvests(plot, plot.plant.type) : 0;
+            const vigor = plot.plant ? plantVigor(plot.plant) : null;
+            const isOutOfBloom = plot.plant?.stage === 'flowering' && !isFlowering(game, plot.plant);
+            const ripeness = plot.plant?.stage === 'fruiting' ? fruitRipeness(game, plot.plant) : null;
 
             return (
               <div
                 key={plot.id}
+                data-plot-id={plot.id}
                 className={plotClassName}
                 onClick={() => handlePlotClick(plot.id)}
                 role="button"
                 aria-label={plotAriaLabel}
               >
                 {plot.plant && ( /* Removed !isBacteriumAnimatingOnPlot(plot.id) */
-                  <div className={`plant ${plot.hasOrganicFertilizer || plot.hasChemicalFertilizer ? 'plant-large' : ''} ${plot.plant.isSmall ? 'plant-small' : ''} ${plot.plant.isHybrid ? 'plant-hybrid' : ''} ${plot.plant.isBoosted ? 'boosted' : ''}`}>
-                    {plot.plant.stage === 'sprout' ? (
+                  <div
+                    className={`plant ${soilHarvestSize(plot) === 'large' ? 'plant-large' : ''} ${vigor === 'small' ? 'plant-small' : ''} ${vigor === 'hybrid' ? 'plant-hybrid' : ''} ${plot.plant.isBoosted ? 'boosted' : ''} ${isOutOfBloom ? 'out-of-bloom' : ''} ${isWilted(plot.plant) ? 'wilted' : ''} stage-${plot.plant.stage}`}
+                    title={`${STAGE_NAMES[plot.plant.stage]}${ripeness ? `: frutos ${RIPENESS_NAMES[ripeness]}` : ''} · Genótipo: ${formatGenotype(plot.plant.genotype)} · fruto ${fruitColor(plot.plant)} · F = ${formatInbreeding(inbreedingOf(game, plot.plant.instanceId))}${isOutOfBloom ? ` · sem flores: ${isHeatwave(weather) ? 'onda de calor' : bloomWindowText(plot.plant.type)}` : ''}`}
+                  >
+                    {plot.plant.stage === 'seedling' || plot.plant.stage === 'vegetative' ? (
                       <div className="sprout-container">
-                        <span className="sprout-emoji">🌱</span>
+                        <span className="sprout-emoji">{plot.plant.stage === 'seedling' ? '🌱' : '🌿'}</span>
                         <span className="sprout-type-icon">{plot.plant.phenotype}</span>
                       </div>
                     ) : (
-                      plot.plant.phenotype
+                      <span style={hasRecessiveColor(plot.plant.genotype) ? { filter: getSpecies(plot.plant.type).genetics.recessiveColorFilter } : undefined}>
+                        {plot.plant.phenotype}
+                      </span>
                     )}
+                    {plot.plant.stage === 'flowering' && <span className="stage-badge" aria-hidden="true">🌸</span>}
+                    {ripeness && <span className={`stage-badge ripeness-${ripeness}`} aria-hidden="true">{RIPENESS_EMOJIS[ripeness]}</span>}
+                  </div>
+                )}
+                {plot.debris && (
+                  <div className="debris" title={`Restos de ${plot.debris}: use a cesta para levá-los à composteira`}>
+                    🍂<span className="sprout-type-icon">{getSpecies(plot.debris).emoji}</span>
+                  </div>
+                )}
+                {!plot.isDisabled && (
+                  <div className="moisture-bar" title={`Umidade do solo: ${Math.round(plot.moisture)}%`}>
+                    <div className="moisture-level" style={{ width: `${plot.moisture}%` }} />
+                  </div>
+                )}
+                {!plot.isDisabled && (
+                  <div className="soil-bars" title={`Solo: ${soilText}`}>
+                    {NUTRIENTS.map(nutrient => (
+                      <div key={nutrient} className={`soil-bar soil-${nutrient}`} style={{ height: `${plot.soil[nutrient]}%` }} />
+                    ))}
                   </div>
                 )}
                 {/* NEW: Fertilizer Icons Container */}
                 <div className="fertilizer-icons-container">
-                  {/* Conditionally render organic fertilizer icon, but not if it's green manure from bean */}
-                  {!plot.hasGreenManureFromBean && plot.hasOrganicFertilizer && (
-                    <span className="fertilizer-icon organic-icon" aria-label="Adubo Orgânico" data-tooltip="Adubo Orgânico">💩</span>
+                  {isOrganicSoil(plot) && (
+                    <span className="fertilizer-icon organic-icon" aria-label="Solo rico em matéria orgânica" data-tooltip="Solo rico em matéria orgânica">💩</span>
+                  )}
+                  {hasResidue(plot) && (
+                    <span className="fertilizer-icon chemical-icon" aria-label="Resíduo de agrotóxico" data-tooltip={`Resíduo de agrotóxico: ${Math.ceil(plot.pesticide)}%`}>☠️</span>
+                  )}
+                  {plot.plant?.infestation && (
+                    <span
+                      className="fertilizer-icon pest-icon"
+                      aria-label={PEST_NAMES[plot.plant.infestation.pest]}
+                      data-tooltip={`${PEST_NAMES[plot.plant.infestation.pest]}: ${Math.round(plot.plant.infestation.severity)}%${plot.plant.infestation.severity >= DAMAGING_SEVERITY ? ', colheita menor' : ''}${isGuardedByLadybugs(game, plot.id) ? ' · joaninhas comendo' : ''}`}
+                    >
+                      {PEST_EMOJIS[plot.plant.infestation.pest]}
+                    </span>
+                  )}
+                  {ladybugHomes.includes(plot.id) && (
+                    <span className="fertilizer-icon ladybug-icon" aria-label="Joaninhas" data-tooltip={`Joaninhas: comem pragas até ${LADYBUG_RANGE} lotes daqui`}>🐞</span>
                   )}
-                  {plot.hasChemicalFertilizer && (
-                    <span className="fertilizer-icon chemical-icon" aria-label="Agrotóxico" data-tooltip="Agrotóxico">☠️</span>
+                  {isSaltySoil(plot) && (
+                    <span className="fertilizer-icon salt-icon" aria-label="Solo salinizado" data-tooltip="Solo salinizado: as raízes absorvem menos">🧂</span>
                   )}
-                  {/* NEW: Green Manure from Bean icon */}
-                  {plot.hasGreenManureFromBean && (
-                    <span className="fertilizer-icon green-manure-icon" aria-label="Adubação Verde (Feijão)" data-tooltip="Nitrogênio do Feijão">🫘</span>
+                  {repeats > 0 && (
+                    <span className="fertilizer-icon rotation-icon" aria-label="Sem rotação de culturas" data-tooltip={`${repeats} ${repeats === 1 ? 'colheita' : 'colheitas'} seguidas de ${plot.plant!.type} aqui: colheita menor`}>🔁</span>
                   )}
-                  {/* Modified boosted-icon for Feijão to show bacterium 🦠 */}
-                  {plot.plant?.isBoosted && plot.plant.type === 'Feijão' && (
+                  {plot.plant?.isBeeVisited && (
+                    <span className="fertilizer-icon bee-visit-icon" aria-label="Visitada por abelhas" data-tooltip="Visitada por abelhas: colheita maior">🐝</span>
+                  )}
+                  {/* Nitrogen-fixing plants show their bacterium 🦠 */}
+                  {plot.plant?.isBoosted && getSpecies(plot.plant.type).fixesNitrogen && (
                     <span className="fertilizer-icon boosted-icon" aria-label="Nitrogênio Fixado" data-tooltip="Nitrogênio Fixado">🦠</span>
                   )}
                 </div>
@@ -1427,7 +819,7 @@ const App = () => {
             className={`tool-button ${selectedTool === 'regador' ? 'selected' : ''}`}
             onClick={() => handleSelectTool(selectedTool === 'regador' ? null : 'regador')}
             aria-pressed={selectedTool === 'regador'}
-            data-tooltip="Rega os brotos para fazê-los crescer."
+            data-tooltip="Molha a terra. Brotos só crescem na terra úmida, e plantas adultas murcham se ela secar."
         >
             <span className="emoji tool-emoji">🚿</span>
             Regador
@@ -1436,25 +828,35 @@ const App = () => {
             className={`tool-button ${selectedTool === 'adubo_organico' ? 'selected' : ''}`}
             onClick={() => handleSelectTool(selectedTool === 'adubo_organico' ? null : 'adubo_organico')}
             aria-pressed={selectedTool === 'adubo_organico'}
-            data-tooltip="Fertiliza a planta para uma colheita grande."
+            data-tooltip="Devolve nitrogênio, fósforo, potássio e matéria orgânica à terra, com ou sem planta. Gasta uma dose da composteira (🪱)."
         >
             <span className="emoji tool-emoji">💩</span>
             Adubo Orgânico
+            <span className="tool-stock">{Math.floor(compost.fertilizer)}</span>
+        </button>
+        <button
+            className={`tool-button ${selectedTool === 'adubo_quimico' ? 'selected' : ''}`}
+            onClick={() => handleSelectTool(selectedTool === 'adubo_quimico' ? null : 'adubo_quimico')}
+            aria-pressed={selectedTool === 'adubo_quimico'}
+            data-tooltip="Enche a terra de nutrientes de uma vez, mas não traz matéria orgânica e deixa sal no solo."
+        >
+            <span className="emoji tool-emoji">🧪</span>
+            Adubo Químico
         </button>
         <button
             className={`tool-button ${selectedTool === 'agrotoxico' ? 'selected' : ''}`}
             onClick={() => handleSelectTool(selectedTool === 'agrotoxico' ? null : 'agrotoxico')}
             aria-pressed={selectedTool === 'agrotoxico'}
-            data-tooltip="Garante uma colheita grande."
+            data-tooltip={`Pulveriza a planta por ${formatMoney(PESTICIDE_PRICE)}. Não aduba: deixa um resíduo que o vento e a chuva espalham, que mata abelhas e derruba o preço da colheita na feira.`}
         >
             <span className="emoji tool-emoji">☠️</span>
             Agrotóxico
         </button>
         <button
             className={`tool-button ${manualBeeMode ? 'selected' : ''}`}
-            onClick={() => setManualBeeMode(!manualBeeMode)}
+            onClick={() => dispatch({ type: 'toggleManualBees' })}
             aria-pressed={manualBeeMode}
-            data-tooltip="Cultive abelhas para ajudar na polinização."
+            data-tooltip={`Instala uma colmeia no centro da horta; uma colônia nova custa ${formatMoney(HIVE_PRICE)}. As abelhas voam até ${BEE_FORAGING_RANGE} lotes dela; agrotóxico por perto adoece a colônia aos poucos.`}
         >
             <span className="emoji tool-emoji">🐝</span>
             Cultivar Abelhas
@@ -1472,7 +874,7 @@ const App = () => {
             className={`tool-button ${selectedTool === 'colher' ? 'selected' : ''}`}
             onClick={() => handleSelectTool(selectedTool === 'colher' ? null : 'colher')}
             aria-pressed={selectedTool === 'colher'}
-            data-tooltip="Coleta plantas adultas para o seu inventário."
+            data-tooltip="Colhe plantas com frutos (🧺 no ponto) e arranca as outras. Plantas arrancadas e restos das mortas (🍂) vão para a composteira."
         >
             <span className="emoji tool-emoji">🧺</span>
             Colher
@@ -1482,19 +884,47 @@ const App = () => {
       <div className={`floating-panel seed-panel ${isMobile && activeMobilePanel === 'seeds' ? 'mobile-panel-active' : ''}`}>
         <h2>Sementes</h2>
         <div className="seed-selection-grid">
-          {(Object.keys(PLANT_CONFIG) as PlantType[]).map(type => (
+          {SPECIES_LIST.map(({ name, emoji, tooltip }) => (
             <button
-              key={type}
-              className={`seed-button ${selectedTool === type ? 'selected' : ''}`}
-              onClick={() => handleSelectTool(selectedTool === type ? null : type)}
-              aria-pressed={selectedTool === type}
-              data-tooltip={SEED_TOOLTIPS[type]}
+              key={name}
+              className={`seed-button ${selectedTool === name ? 'selected' : ''}`}
+              onClick={() => handleSelectTool(selectedTool === name ? null : name)}
+              aria-pressed={selectedTool === name}
+              data-tooltip={[selfFertilizationText(name), tooltip].filter(Boolean).join(' ')}
             >
-              <span className="emoji">{PLANT_CONFIG[type].phenotype}</span>
-              {type}
+              <span className="emoji">{emoji}</span>
+              {name}
+              <small>{formatMoney(seedPrice(name))}</small>
             </button>
           ))}
         </div>
+        {/* Saved lots carry the lineage of the plant they were harvested from */}
+        {seedBank.length > 0 && (
+          <>
+            <h3 className="seed-bank-title">Banco de Sementes</h3>
+            <div className="seed-lot-list">
+              {seedBank.map(lot => {
+                const mother = game.pedigree[lot.motherId];
+                const isSelected = selectedLot?.id === lot.id;
+                const isSelfed = lot.crosses.every(cross => cross.partnerId === lot.motherId);
+                return (
+                  <button
+                    key={lot.id}
+                    className={`seed-button seed-lot-button ${isSelected ? 'selected' : ''}`}
+                    onClick={() => handleSelectTool(isSelected ? null : { seedLotId: lot.id })}
+                    aria-pressed={isSelected}
+                    data-tooltip={`Colhidas em ${formatDate(lot.harvestedOn)} de uma planta ${formatGenotype(mother.genotype)} da geração ${mother.generation}. ` +
+                      (isSelfed ? 'Sementes de autofecundação.' : `Cada semente vem de um de ${lot.crosses.length} cruzamentos registrados.`)}
+                  >
+                    <span className="emoji">{getSpecies(lot.type).emoji}</span>
+                    {lot.type}
+                    <small>{lot.count} {lot.count === 1 ? 'semente' : 'sementes'} · G{mother.generation + 1}</small>
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
       </div>
 
       <div className={`floating-panel inventory-panel ${isMobile && activeMobilePanel === 'inventory' ? 'mobile-panel-active' : ''}`}>
@@ -1512,14 +942,14 @@ const App = () => {
                 return (
                     <div key={type} className="inventory-group">
                         <div className="inventory-header">
-                            <span className="inventory-header-emoji">{PLANT_CONFIG[type].phenotype}</span>
+                            <span className="inventory-header-emoji">{getSpecies(type).emoji}</span>
                             {type}
                         </div>
                         <div className="inventory-variants">
                             {/* Small Plants */}
                             {(sizeCounts.small?.plain || sizeCounts.small?.organic || sizeCounts.small?.pesticide) > 0 && (
                                 <div className="inventory-size-group">
-                                    <div className="inventory-size-label">Pequena</div>
+                                    <div className="inventory-size-label">Pequena {renderCompostButton(type, 'small')}</div>
                                     {sizeCounts.small.plain > 0 && (
                                         <div className="inventory-sub-variant">
                                             <span className="sub-variant-label">Natural:</span>
@@ -1545,7 +975,7 @@ const App = () => {
                             {/* Normal Plants */}
                             {(sizeCounts.normal?.plain || sizeCounts.normal?.organic || sizeCounts.normal?.pesticide) > 0 && (
                                 <div className="inventory-size-group">
-                                    <div className="inventory-size-label">Normal</div>
+                                    <div className="inventory-size-label">Normal {renderCompostButton(type, 'normal')}</div>
                                     {sizeCounts.normal.plain > 0 && (
                                         <div className="inventory-sub-variant">
                                             <span className="sub-variant-label">Natural:</span>
@@ -1571,7 +1001,7 @@ const App = () => {
                             {/* Large Plants */}
                             {(sizeCounts.large?.plain || sizeCounts.large?.organic || sizeCounts.large?.pesticide) > 0 && (
                                 <div className="inventory-size-group">
-                                    <div className="inventory-size-label">Grande</div>
+                                    <div className="inventory-size-label">Grande {renderCompostButton(type, 'large')}</div>
                                     {sizeCounts.large.plain > 0 && (
                                         <div className="inventory-sub-variant">
                                             <span className="sub-variant-label">Natural:</span>
@@ -1605,7 +1035,7 @@ const App = () => {
       </div>
 
       {/* Rain Animation */}
-      {weather.includes('raining') && (
+      {isRaining(weather) && (
         <div className="rain-container" aria-hidden="true">
             {Array.from({ length: 50 }).map((_, i) => (
                 <div key={i} className="raindrop" style={{ 
@@ -1617,20 +1047,42 @@ const App = () => {
         </div>
       )}
 
-      {(beeState !== 'hidden') && (
-        <div className="bees-container" aria-hidden="true">
-          <div className={`bee bee-1 ${beeState === 'dying' ? 'dying' : ''}`}>🐝</div>
-          <div className={`bee bee-2 ${beeState === 'dying' ? 'dying' : ''}`}>🐝</div>
-          <div className={`bee bee-3 ${beeState === 'dying' ? 'dying' : ''}`}>🐝</div>
-          {/* Extra bees if Sunflowers are present AND manual mode is on (3 + 3) */}
-          {hasSunflowers && manualBeeMode && (
-            <>
-                <div className={`bee bee-4 ${beeState === 'dying' ? 'dying' : ''}`}>🐝</div>
-                <div className={`bee bee-5 ${beeState === 'dying' ? 'dying' : ''}`}>🐝</div>
-                <div className={`bee bee-6 ${beeState === 'dying' ? 'dying' : ''}`}>🐝</div>
-            </>
-          )}
-        </div>
+      {isSavePanelOpen && (
+        <SaveSlotsPanel
+          game={game}
+          onLoad={setGame}
+          onNewGame={() => setGardenSetupOpen(true)}
+          onClose={() => setSavePanelOpen(false)}
+        />
+      )}
+
+      {isSnapshotPanelOpen && (
+        <SnapshotPanel
+          game={game}
+          initialError={snapshotError}
+          onImport={importLayout}
+          onClose={() => {
+            setSnapshotPanelOpen(false);
+            setSnapshotError(null);
+          }}
+        />
+      )}
+
+      {isGardenSetupOpen && (
+        <GardenSetupPanel
+          initialSize={gardenSize}
+          initialClimate={climate}
+          onCreate={(size: GardenSize, disabledPlotIds: number[], settings: Partial<GameSettings>) => setGame(createInitialState(wallClock(), size, disabledPlotIds, settings))}
+          onClose={() => setGardenSetupOpen(false)}
+        />
+      )}
+
+      {isHivePanelOpen && <HivePanel game={game} onClose={() => setHivePanelOpen(false)} />}
+      {isCompostPanelOpen && <CompostPanel game={game} onClose={() => setCompostPanelOpen(false)} />}
+      {isMarketPanelOpen && <MarketPanel game={game} dispatch={dispatch} onClose={() => setMarketPanelOpen(false)} />}
+
+      {pedigreePlantId && (
+        <PedigreePanel game={game} instanceId={pedigreePlantId} onClose={() => setPedigreePlantId(null)} />
       )}
 
       {isInstructionsOpen && (
@@ -1643,20 +1095,39 @@ const App = () => {
                         <li><strong>1. Selecione Semente/Ferramenta.</strong></li>
                         <li><strong>2. Plante:</strong> Clique em um lote vazio.</li>
                         <li><strong>3. Regue (🌱):</strong> Botoes precisam de água para crescer.</li>
-                        <li><strong>4. Fertilize:</strong> Adubo orgânico/agrotóxico para plantas grandes.</li>
-                        <li><strong>5. ATENÇÃO:</strong> Agrotóxicos espantam abelhas! 🐝🚫</li>
+                        <li><strong>4. Fertilize:</strong> Adubo orgânico/químico devolvem nutrientes ao solo.</li>
+                        <li><strong>5. ATENÇÃO:</strong> Agrotóxicos matam abelhas! 🐝🚫</li>
                         <li><strong>6. Colha:</strong> Use a cesta para coletar.</li>
                     </ol>
                 ) : (
                     <ol className="instructions-list">
                         <li><strong>Selecione uma semente ou ferramenta:</strong> Escolha o que usar nos painéis.</li>
                         <li><strong>Plante:</strong> Com uma semente selecionada, clique em um lote de terra vazio.</li>
-                        <li><strong>Cuide da planta:</strong> Um broto (🌱) precisa de <strong>água</strong> para crescer. Use o regador (💧).</li>
-                        <li><strong>Cresça mais:</strong> Use <strong>Adubo Orgânico</strong> ou <strong>Agrotóxicos</strong> para fazer a planta ficar gigante!</li>
-                        <li><strong>Atenção:</strong> Agrotóxicos funcionam bem, mas espantam as abelhas! 🐝🚫</li>
+                        <li><strong>Cuide da planta:</strong> Um broto (🌱) precisa de <strong>terra úmida</strong> para crescer. Use o regador (💧).</li>
+                        <li><strong>Água no solo:</strong> A barra azul de cada lote mostra a umidade. O sol, o vento e a seca secam a terra; a chuva e o regador a molham. Na terra seca ou encharcada a planta murcha (🥀), não floresce e acaba morrendo.</li>
+                        <li><strong>Solo:</strong> As barrinhas de cada lote mostram nitrogênio (N), fósforo (P) e potássio (K). Cada colheita tira do solo os nutrientes da cultura, e o que faltar mais decide o tamanho da colheita. Use <strong>Adubo Orgânico</strong> ou <strong>Adubo Químico</strong> para devolvê-los; o feijão fixa nitrogênio e a adubação verde o espalha. O adubo químico age rápido, mas deixa sal (🧂) que atrapalha as raízes até a chuva lavá-lo.</li>
+                        <li><strong>Rotação de culturas:</strong> Plantar a mesma cultura de novo no mesmo lote (🔁) rende cada vez menos. Alterne culturas exigentes, como o milho, com o feijão.</li>
+                        <li><strong>Pragas:</strong> Pulgões (🦟) e lagartas (🐛) aparecem mais numa horta com uma cultura só e passam para as plantas vizinhas da mesma espécie, diminuindo a colheita. Para combatê-las: pulverize agrotóxico (rápido, mas mata abelhas), plante girassóis por perto, que atraem joaninhas (🐞) que comem as pragas até {LADYBUG_RANGE} lotes de distância, ou arranque as plantas atacadas com a ferramenta Colher (🧺).</li>
+                        <li><strong>Agrotóxico (☠️):</strong> Não aduba: deixa nas plantas um resíduo que se desfaz aos poucos, mas o vento o leva para os lotes a favor do vento e a chuva o escorre para os vizinhos. Quanto mais resíduo nas flores, mais abelhas silvestres morrem e mais a colmeia adoece; as mamangavas evitam até pouco resíduo. 🐝🚫</li>
+                        <li><strong>Companheiras (Três Irmãs):</strong> Algumas plantas ajudam ou atrapalham as vizinhas de lado. O feijão sobe no milho (🧗) e divide com ele o nitrogênio, e os dois rendem mais; a abóbora cobre o solo (☂️) do milho e do feijão, que secam mais devagar. Já o girassol atrapalha o feijão e o tomate, e o milho atrapalha o tomate (⚔️): a planta prejudicada dá uma colheita menor. Passe o mouse sobre os ícones entre os lotes.</li>
+                        <li><strong>Ciclo de vida:</strong> Cada planta passa por muda (🌱), crescimento (🌿), floração (🌸), frutificação e envelhecimento, e depois morre. Só há polinização enquanto ela está em flor, e só dá para colher com frutos: colhidos verdes (⏳) ou passando do ponto (⚠️) eles rendem um tamanho a menos, então colha no ponto (🧺). Uma planta que morre deixa restos (🍂): use a cesta para levá-los à composteira antes de plantar de novo.</li>
+                        <li><strong>Composteira (🪱):</strong> O adubo orgânico não é de graça: cada uso gasta uma dose da composteira. As plantas arrancadas, os restos das mortas e as colheitas que você mandar do inventário (♻️) viram adubo depois de {COMPOST_DAYS} dias. Assim os nutrientes que a colheita tirou voltam para a terra.</li>
+                        <li><strong>Feira (🏪):</strong> Venda a colheita na feira. O preço depende da espécie e do tamanho; o orgânico vale mais e o que foi colhido com muito resíduo de agrotóxico vale a metade; um pouco de resíduo trazido pelo vento não conta. A procura de cada cultura muda todo dia e cai a cada venda. O dinheiro paga sementes comerciais, a colônia de abelhas e o agrotóxico; sementes guardadas, composto e polinizadores silvestres são de graça.</li>
                         <li><strong>Combine:</strong> Plantas vizinhas iguais criam novos brotos!</li>
                         <li><strong>Abóboras, Maçãs e Milhos:</strong> Têm regras especiais de genética e polinização. Descubra todas as variantes!</li>
-                        <li><strong>Colha:</strong> Use a pá para colher.</li>
+                        <li><strong>Tomate, Mandioca e Café:</strong> O tomate depende da vibração das mamangavas, a mandioca é replantada como clone ao colher e o café se autofecunda, mas rende mais com abelhas.</li>
+                        <li><strong>Abelhas:</strong> Cada abelha voa só até {BEE_FORAGING_RANGE} lotes da colmeia ou do girassol que a atraiu, e só leva pólen entre flores que visitou. Plante as flores perto umas das outras!</li>
+                        <li><strong>Polinizadores:</strong> Cada animal procura flores de uma cor e forma: abelhas (🐝) não enxergam o vermelho, borboletas (🦋) pousam em flores agrupadas e levam pouco pólen, beija-flores (🐦) buscam flores vermelhas em tubo, como o hibisco, e morcegos (🦇) visitam à noite as flores brancas da pitaya. Cada um tolera uma dose diferente de agrotóxico. Quanto mais variada a horta, mais polinizadores ela sustenta.</li>
+                        <li><strong>Noite:</strong> Use 🌙 para anoitecer e ☀️ para amanhecer no dia seguinte. À noite as flores do dia se fecham e os animais diurnos vão embora; só as flores noturnas se abrem.</li>
+                        <li><strong>Colmeia (🐝):</strong> A colônia tem população e saúde, que você acompanha no botão 🐝 do topo. O agrotóxico nas flores primeiro desorienta as abelhas, que trazem menos alimento; só com a saúde baixa a população cai. A recuperação leva dias e depende de flores por perto. A primeira colônia é comprada ao instalar a colmeia; se ela acabar, é preciso comprar outra.</li>
+                        <li><strong>Vento:</strong> A previsão mostra para onde o vento sopra (➡️) e sua força. O pólen do milho só chega às plantas a favor do vento, e cada vez menos com a distância: plante em blocos, não em fileiras!</li>
+                        <li><strong>Calendário:</strong> Cada avanço do tempo (⏭️) é um dia, e cada estação dura {DAYS_PER_SEASON} dias. O clima escolhido na nova horta decide o tempo de cada estação: geadas (❄️) matam as culturas sensíveis ao frio, secas (🏜️) e ondas de calor (🌡️) secam a terra, e no calor as flores caem. A maçã e o café só florescem na primavera, e o girassol precisa de dias longos: fora de época a planta fica sem flores e não poliniza.</li>
+                        <li><strong>Semente:</strong> Toda horta tem uma semente que decide o tempo e todos os sorteios do jogo. Digite a mesma semente ao criar a horta e a turma inteira verá a mesma sequência.</li>
+                        <li><strong>Banco de sementes:</strong> Cada colheita guarda as sementes da planta no painel de sementes, com o número de sementes e a geração (G). Plante um lote em vez da semente comercial para continuar a linhagem: cada semente é filha da planta colhida e de um dos parceiros que a polinizaram. Assim dá para selecionar, geração após geração, as plantas que você quer.</li>
+                        <li><strong>Genética:</strong> Cada planta herda um alelo de cada pai. Passe o mouse sobre ela para ver o genótipo: dose dupla de um alelo recessivo (vv) deixa a planta menor, e muitos genes heterozigotos (Vv) dão vigor híbrido.</li>
+                        <li><strong>Árvore genealógica:</strong> Sem nenhuma ferramenta selecionada, clique em uma planta para ver seus pais, filhos e como foi polinizada.</li>
+                        <li><strong>Colha:</strong> Use a ferramenta Colher (🧺) para colher.</li>
+                        <li><strong>Controle o tempo:</strong> Pause (⏸️), acelere (1×/2×/5×) ou pule para o próximo evento (⏩).</li>
                     </ol>
                 )}
             </div>
@@ -1664,11 +1135,11 @@ const App = () => {
       )}
 
       {/* Dynamic Central Notification Modal Stack */}
-      {modalStack.length > 0 && (
+      {topModal && (
         <div className="modal-overlay center-notification-modal" onClick={closeTopModal}>
             <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-                <h2>{modalStack[0].title}</h2>
-                <p>{modalStack[0].message}</p>
+                <h2>{topModal.title}</h2>
+                <p>{topModal.message}</p>
                 <button className="ok-button" onClick={closeTopModal}>Entendi</button>
             </div>
         </div>
@@ -1679,12 +1150,14 @@ const App = () => {
         <button
           className="selected-tool-indicator"
           onClick={() => setSelectedTool(null)}
-          aria-label={`Ferramenta selecionada: ${Object.keys(PLANT_CONFIG).includes(selectedTool as PlantType) ? selectedTool : `o ${selectedTool}`}. Clique para deselecionar.`}
+          aria-label={`Ferramenta selecionada: ${isSeedLotTool(selectedTool) ? `sementes guardadas de ${selectedLot?.type}` : isPlantType(selectedTool) ? selectedTool : `o ${selectedTool}`}. Clique para deselecionar.`}
         >
           <span className="emoji">
-            {Object.keys(PLANT_CONFIG).includes(selectedTool as PlantType)
-              ? PLANT_CONFIG[selectedTool as PlantType].phenotype
-              : TOOL_EMOJIS[selectedTool as ToolType]}
+            {isSeedLotTool(selectedTool)
+              ? selectedLot && getSpecies(selectedLot.type).emoji
+              : isPlantType(selectedTool)
+              ? getSpecies(selectedTool).emoji
+              : TOOL_EMOJIS[selectedTool]}
           </span>
         </button>
       )}
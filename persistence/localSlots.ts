@@ -0,0 +1,45 @@
+import type { GameState } from '../engine';
+import { parseSave, serializeGame } from './saveFormat';
+
+const SLOT_PREFIX = 'hortinha:save:';
+
+export const AUTOSAVE_SLOT = 'autosave';
+export const AUTOSAVE_INTERVAL_MS = 5000;
+
+export interface SlotInfo {
+  name: string;
+  savedAt: number;
+}
+
+const slotKey = (name: string) => `${SLOT_PREFIX}${name}`;
+
+export const listSlots = (): SlotInfo[] => {
+  const slots: SlotInfo[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(SLOT_PREFIX)) continue;
+
+    let savedAt = 0;
+    try {
+      savedAt = JSON.parse(localStorage.getItem(key) ?? '{}').savedAt ?? 0;
+    } catch {
+      // Corrupt slots are still listed so they can be deleted
+    }
+    slots.push({ name: key.slice(SLOT_PREFIX.length), savedAt });
+  }
+  return slots.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const saveToSlot = (name: string, state: GameState, savedAt: number = Date.now()) => {
+  localStorage.setItem(slotKey(name), serializeGame(state, savedAt));
+};
+
+// Returns null for an empty slot; throws SaveFormatError for a broken one
+export const loadFromSlot = (name: string): GameState | null => {
+  const json = localStorage.getItem(slotKey(name));
+  return json === null ? null : parseSave(json).state;
+};
+
+export const deleteSlot = (name: string) => {
+  localStorage.removeItem(slotKey(name));
+};
@@ -0,0 +1,274 @@
+import { LAYOUT_STREAM, mixSeed, type GameState } from '../engine';
+import { SaveFormatError } from './errors';
+import { readSavedGame } from './validation';
+
+// Bump whenever the shape of GameState changes, and add the matching migration below
+export const SAVE_VERSION = 19;
+
+export interface SaveFile {
+  version: number;
+  savedAt: number;
+  state: GameState;
+}
+
+export { SaveFormatError };
+
+type SaveData = Record<string, unknown>;
+type Migration = (state: SaveData) => SaveData;
+
+const isObject = (value: unknown): value is SaveData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mapList = (value: unknown, fn: (item: SaveData) => unknown) =>
+  Array.isArray(value) ? value.map(item => (isObject(item) ? fn(item) : item)) : value;
+
+// Wind-pollinated seeds waiting in the scheduler carry plants too
+const mapPendingBirths = (state: SaveData, fn: (birth: SaveData) => unknown) =>
+  isObject(state.scheduler) && {
+    scheduler: {
+      ...state.scheduler,
+      timers: mapList(state.scheduler.timers, timer => {
+        if (!isObject(timer.event) || timer.event.kind !== 'windPollination') return timer;
+        return { ...timer, event: { ...timer.event, births: mapList(timer.event.births, fn) } };
+      }),
+    },
+  };
+
+// v4 timers were named after the only species that used them
+const GENERIC_TIMER_KINDS: Record<string, SaveData> = {
+  beanFixation: { kind: 'nitrogenFixation' },
+  beanSelfPollinationStart: { kind: 'autogamyStart' },
+  beanSelfPollination: { kind: 'autogamy' },
+  cornHint: { kind: 'lonePlantHint', plantType: 'Milho' },
+};
+
+// v14 timers and agents covered every pollinator, not only bees
+const POLLINATOR_TIMER_KINDS: Record<string, SaveData> = {
+  beeFlight: { kind: 'pollinatorFlight' },
+  beePollination: { kind: 'animalPollination', pollinator: 'bee' },
+  beesDied: { kind: 'pollinatorsDied' },
+};
+
+const renameTimerKinds = (state: SaveData, kinds: Record<string, SaveData>) =>
+  isObject(state.scheduler) && {
+    scheduler: {
+      ...state.scheduler,
+      timers: mapList(state.scheduler.timers, timer => {
+        if (!isObject(timer.event) || typeof timer.event.kind !== 'string' || !(timer.event.kind in kinds)) return timer;
+        return { ...timer, event: { ...timer.event, ...kinds[timer.event.kind] } };
+      }),
+    },
+  };
+
+// v5 bees paired any two flowers of a species at once. Their pending seeds are
+// dropped along with the lines and animations drawn for them.
+const dropPairedBeeTimers = (state: SaveData) => {
+  if (!isObject(state.scheduler) || !Array.isArray(state.scheduler.timers)) return {};
+  const isPairedBeeTimer = (timer: unknown) =>
+    isObject(timer) && isObject(timer.event) && (timer.event.kind === 'beeForage' || timer.event.kind === 'beePollination');
+  const pairs = state.scheduler.timers.flatMap(timer =>
+    isPairedBeeTimer(timer) && timer.event.kind === 'beePollination' ? [[timer.event.sourcePlotId, timer.event.partnerPlotId]] : [],
+  );
+  const isPairPlot = (plotId: unknown) => pairs.some(pair => pair.includes(plotId));
+  return {
+    scheduler: { ...state.scheduler, timers: state.scheduler.timers.filter(timer => !isPairedBeeTimer(timer)) },
+    ...(Array.isArray(state.activeConnections) && {
+      activeConnections: state.activeConnections.filter(conn => !isObject(conn) || !pairs.some(([from, to]) => conn.from === from && conn.to === to)),
+    }),
+    ...(Array.isArray(state.animatingPlots) && { animatingPlots: state.animatingPlots.filter(plotId => !isPairPlot(plotId)) }),
+  };
+};
+
+// v6 windy days had no direction; the old wind lines always blew from left to right
+const withWind = (weather: unknown) => ({
+  weather,
+  wind: typeof weather === 'string' && weather.includes('_windy') ? { towards: 'E', strength: 2 } : null,
+});
+
+// v1 plants only had isSmall/isHybrid flags. Give them a genotype that expresses
+// the same size: a recessive pair for small ones, broad heterozygosity for hybrids.
+const genotypeFromFlags = (plant: SaveData) => {
+  const vigor = ['VV', 'VV', 'VV', 'VV', 'VV', 'VV'];
+  if (plant.isSmall) vigor[0] = 'vv';
+  else if (plant.isHybrid) vigor.fill('Vv', 0, 3);
+  else if (plant.type !== 'Feijão') vigor.fill('Vv', 0, 2);
+  return { vigor: vigor.map(pair => pair.split('')), color: ['C', 'C'] };
+};
+
+const addGenotype = (plant: unknown) => {
+  if (!isObject(plant)) return plant;
+  const { isSmall, isHybrid, ...rest } = plant;
+  return { ...rest, genotype: genotypeFromFlags(plant) };
+};
+
+// v2 had no pedigree: start one from the plants still in the garden. Their
+// harvested ancestors are gone, so whatever is unknown counts as a founder.
+const pedigreeFromGarden = (garden: unknown) => {
+  const plants = new Map<string, SaveData>();
+  for (const plot of Array.isArray(garden) ? garden : []) {
+    if (isObject(plot) && isObject(plot.plant) && typeof plot.plant.instanceId === 'string') {
+      plants.set(plot.plant.instanceId, plot.plant);
+    }
+  }
+
+  const generation = (id: string, seen: Set<string>): number => {
+    const parentIds = plants.get(id)?.parentIds;
+    if (!Array.isArray(parentIds) || seen.has(id)) return 0;
+    const known = parentIds.filter(parentId => plants.has(parentId));
+    return known.length > 0 ? Math.max(...known.map(parentId => generation(parentId, new Set(seen).add(id)))) + 1 : 0;
+  };
+
+  return Object.fromEntries(
+    [...plants].map(([id, plant]) => [
+      id,
+      { instanceId: id, type: plant.type, parentIds: plant.parentIds, genotype: plant.genotype, generation: generation(id, new Set()), inbreeding: 0, bornAt: 0 },
+    ]),
+  );
+};
+
+// MIGRATIONS[n] upgrades the state of a version n save to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  1: state => ({
+    ...state,
+    garden: mapList(state.garden, plot => ({ ...plot, plant: addGenotype(plot.plant) })),
+    ...(isObject(state.pollenSack) && { pollenSack: { ...state.pollenSack, plant: addGenotype(state.pollenSack.plant) } }),
+    ...mapPendingBirths(state, ({ isHybrid, ...birth }) => ({ ...birth, plant: addGenotype(birth.plant) })),
+  }),
+  2: state => ({
+    ...state,
+    pedigree: pedigreeFromGarden(state.garden),
+    ...mapPendingBirths(state, ({ isInbreeding, ...birth }) => birth),
+  }),
+  // Gardens were always 4×4 with every plot usable
+  3: state => ({
+    ...state,
+    gardenSize: { width: 4, height: 4 },
+    garden: mapList(state.garden, plot => ({ ...plot, isDisabled: false })),
+  }),
+  4: state => ({ ...state, ...renameTimerKinds(state, GENERIC_TIMER_KINDS) }),
+  5: state => ({ ...state, bees: [], ...dropPairedBeeTimers(state) }),
+  6: state => ({
+    ...state,
+    wind: withWind(state.weather).wind,
+    ...(Array.isArray(state.forecast) && { forecast: state.forecast.map(withWind) }),
+  }),
+  // Before the calendar every game was on its first day, in spring
+  7: state => ({ ...state, day: 0 }),
+  // Older games rolled Math.random and had the humid, frosty weather of the Mata Atlântica
+  8: state => ({ ...state, climate: 'mata_atlantica', seed: 0, rngState: 0 }),
+  // Watered plots were moist enough for sprouts to grow; the rest were plain soil
+  9: state => ({
+    ...state,
+    garden: mapList(state.garden, ({ isWatered, ...plot }) => ({ ...plot, moisture: isWatered ? 60 : 30 })),
+  }),
+  // Fertilizer flags became nutrient levels; any of them used to mean a large harvest
+  10: state => ({
+    ...state,
+    garden: mapList(state.garden, ({ hasOrganicFertilizer, hasGreenManureFromBean, ...plot }) => ({
+      ...plot,
+      soil: hasOrganicFertilizer || hasGreenManureFromBean || plot.hasChemicalFertilizer
+        ? { nitrogen: 80, phosphorus: 80, potassium: 80, organicMatter: hasOrganicFertilizer || hasGreenManureFromBean ? 45 : 20 }
+        : { nitrogen: 40, phosphorus: 40, potassium: 40, organicMatter: 20 },
+      cropHistory: [],
+    })),
+  }),
+  // Pesticide became a residue level, and poisoned bees now die one by one
+  11: state => ({
+    ...state,
+    ...(state.beeState === 'dying' && { beeState: 'hidden', bees: [] }),
+    garden: mapList(state.garden, ({ hasChemicalFertilizer, ...plot }) => ({
+      ...plot,
+      pesticide: hasChemicalFertilizer ? 50 : 0,
+      soil: isObject(plot.soil) ? { ...plot.soil, salinity: 0 } : plot.soil,
+    })),
+  }),
+  12: state => ({ ...state, hive: { population: 10000, health: 100, history: [] } }),
+  // Bees became one kind of pollinator among others, and the day got a night
+  13: ({ beeState, bees, ...state }) => ({
+    ...state,
+    isNight: false,
+    pollinators: mapList(bees, bee => ({ ...bee, kind: 'bee' })) ?? [],
+    ...renameTimerKinds(state, POLLINATOR_TIMER_KINDS),
+  }),
+  // Harvests used to keep no seeds
+  14: state => ({ ...state, seedBank: [] }),
+  // Sprouts became seedlings, and grown plants flowered forever; they start flowering now
+  15: state => {
+    const tick = isObject(state.scheduler) && typeof state.scheduler.tick === 'number' ? state.scheduler.tick : 0;
+    const withStage = (plant: unknown) => {
+      if (!isObject(plant)) return plant;
+      if (plant.stage === 'sprout') return { ...plant, stage: 'seedling' };
+      return plant.stage === 'grown' ? { ...plant, stage: 'flowering', stageStartedAt: tick } : plant;
+    };
+    return {
+      ...state,
+      garden: mapList(state.garden, plot => ({ ...plot, plant: withStage(plot.plant) })),
+      ...mapPendingBirths(state, birth => ({ ...birth, plant: withStage(birth.plant) })),
+    };
+  },
+  // Organic fertilizer used to be free; older games get a new garden's starter stock
+  16: state => ({ ...state, compost: { batches: [], fertilizer: 3 } }),
+  // Harvests had no buyers and nothing cost money; older games get a new garden's starting cash
+  17: state => ({ ...state, market: { cash: 30, demand: {} } }),
+  // Layouts restarted the generator from the seed, replaying the ids of their own plants;
+  // older ones go on from a stream of their own
+  18: state => ('rngState' in state && state.rngState !== undefined) || typeof state.seed !== 'number'
+    ? state
+    : { ...state, rngState: mixSeed(state.seed, LAYOUT_STREAM) },
+};
+
+const REQUIRED_FIELDS: (keyof GameState)[] = ['gardenSize', 'garden', 'inventory', 'seedBank', 'compost', 'market', 'climate', 'seed', 'rngState', 'day', 'weather', 'wind', 'forecast', 'pollinators', 'hive', 'scheduler', 'notifications', 'reproducedPlantIds', 'pedigree'];
+
+export const migrateState = (state: SaveData, fromVersion: number): SaveData => {
+  let migrated = state;
+  for (let version = fromVersion; version < SAVE_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) throw new SaveFormatError(`Não sei atualizar saves da versão ${version}.`);
+    migrated = migration(migrated);
+  }
+  return migrated;
+};
+
+export const toSaveFile = (state: GameState, savedAt: number): SaveFile => ({
+  version: SAVE_VERSION,
+  savedAt,
+  state,
+});
+
+export const serializeGame = (state: GameState, savedAt: number): string =>
+  JSON.stringify(toSaveFile(state, savedAt));
+
+// Accepts an already parsed save of any known version and brings it up to date
+export const readSaveFile = (data: unknown): SaveFile => {
+  if (!isObject(data)) throw new SaveFormatError('O arquivo não contém um jogo salvo.');
+
+  const { version, savedAt, state } = data;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new SaveFormatError('O jogo salvo não informa uma versão válida.');
+  }
+  if (version > SAVE_VERSION) {
+    throw new SaveFormatError(`O jogo foi salvo por uma versão mais nova do Germina (v${version}).`);
+  }
+  if (!isObject(state)) throw new SaveFormatError('O jogo salvo não contém o estado da horta.');
+
+  const migrated = migrateState(state, version);
+  const missing = REQUIRED_FIELDS.filter(field => !(field in migrated));
+  if (missing.length > 0) {
+    throw new SaveFormatError(`O jogo salvo está incompleto: faltam ${missing.join(', ')}.`);
+  }
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof savedAt === 'number' ? savedAt : 0,
+    state: { ...migrated, ...readSavedGame(migrated) } as GameState,
+  };
+};
+
+export const parseSave = (json: string): SaveFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SaveFormatError('O jogo salvo não é um JSON válido.');
+  }
+  return readSaveFile(data);
+};
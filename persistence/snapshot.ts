@@ -0,0 +1,161 @@
+import { CLIMATE_IDS, FORECAST_LENGTH, isClimateId, isWindy, WIND_DIRECTIONS, WIND_STRENGTHS, type GameState, type GardenLayout, type PlotState, type WeatherReport, type WeatherType, type Wind } from '../engine';
+import { migrateState, SAVE_VERSION } from './saveFormat';
+import { fail, isObject, readGardenPlots } from './validation';
+
+const SNAPSHOT_KIND = 'hortinha-snapshot';
+export const SNAPSHOT_HASH_PREFIX = '#horta=';
+
+export interface GardenSnapshot extends GardenLayout {
+  kind: typeof SNAPSHOT_KIND;
+  version: number;
+}
+
+const WEATHER_TYPES: WeatherType[] = ['sunny', 'raining', 'sunny_windy', 'raining_windy', 'frost', 'drought', 'storm', 'heatwave'];
+
+export const createSnapshot = ({ gardenSize, garden, climate, seed, rngState, day, weather, wind, forecast }: GameState): GardenSnapshot => ({
+  kind: SNAPSHOT_KIND,
+  version: SAVE_VERSION,
+  gardenSize,
+  garden,
+  climate,
+  seed,
+  rngState,
+  day,
+  weather,
+  wind,
+  forecast,
+});
+
+// --- VALIDATION ---
+
+const isWeather = (value: unknown): value is WeatherType =>
+  typeof value === 'string' && (WEATHER_TYPES as string[]).includes(value);
+
+// Windy weather always blows somewhere; calm weather has no wind
+const readWind = (data: unknown, weather: WeatherType, where: string): Wind | null => {
+  if (!isWindy(weather)) {
+    return data === null || data === undefined ? null : fail(`${where}: só há vento em dias de vento.`);
+  }
+  if (!isObject(data) || !(WIND_DIRECTIONS as unknown[]).includes(data.towards)) {
+    return fail(`${where}: direção do vento inválida (use ${WIND_DIRECTIONS.join(', ')}).`);
+  }
+  if (!(WIND_STRENGTHS as unknown[]).includes(data.strength)) {
+    return fail(`${where}: a força do vento deve ser ${WIND_STRENGTHS.join(', ')}.`);
+  }
+  return { towards: data.towards as Wind['towards'], strength: data.strength as Wind['strength'] };
+};
+
+const readReport = (data: unknown, where: string): WeatherReport => {
+  if (!isObject(data) || !isWeather(data.weather)) {
+    return fail(`${where}: clima desconhecido "${String(isObject(data) ? data.weather : data)}".`);
+  }
+  return { weather: data.weather, wind: readWind(data.wind, data.weather, where) };
+};
+
+// The stage clock restarts with the new game, so plants forget when their stage began
+const restartStageClocks = (garden: PlotState[]): PlotState[] =>
+  garden.map(plot => (plot.plant ? { ...plot, plant: { ...plot.plant, stageStartedAt: undefined } } : plot));
+
+export const validateSnapshot = (data: unknown): GardenLayout => {
+  if (!isObject(data) || data.kind !== SNAPSHOT_KIND) {
+    return fail('Este arquivo não é uma horta exportada pelo Germina.');
+  }
+  const { version } = data;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return fail('A horta exportada não informa uma versão válida.');
+  }
+  if (version > SAVE_VERSION) {
+    return fail(`A horta foi exportada por uma versão mais nova do Germina (v${version}).`);
+  }
+
+  const { gardenSize, garden, climate, seed, rngState, day, weather, wind, forecast } = migrateState(
+    { gardenSize: data.gardenSize, garden: data.garden, climate: data.climate, seed: data.seed, rngState: data.rngState, day: data.day, weather: data.weather, wind: data.wind, forecast: data.forecast },
+    version,
+  );
+
+  if (!isClimateId(climate)) return fail(`Clima desconhecido "${String(climate)}" (use ${CLIMATE_IDS.join(', ')}).`);
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) return fail('A semente (seed) deve ser um número inteiro positivo.');
+  if (typeof rngState !== 'number' || !Number.isInteger(rngState)) return fail('O estado do sorteio (rngState) deve ser um número inteiro.');
+  if (typeof day !== 'number' || !Number.isInteger(day) || day < 0) return fail('O dia do calendário (day) deve ser um número inteiro a partir de 0.');
+  const today = readReport({ weather, wind }, 'Clima atual');
+  if (!Array.isArray(forecast) || forecast.length !== FORECAST_LENGTH) {
+    return fail(`A previsão do tempo deve ter ${FORECAST_LENGTH} dias.`);
+  }
+
+  const plots = readGardenPlots(gardenSize, garden);
+  return {
+    ...plots,
+    garden: restartStageClocks(plots.garden),
+    climate,
+    seed,
+    rngState,
+    day,
+    ...today,
+    forecast: forecast.map((day, index) => readReport(day, `Previsão do dia ${index + 1}`)),
+  };
+};
+
+export const parseSnapshotJson = (json: string): GardenLayout => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return fail('O arquivo não é um JSON válido.');
+  }
+  return validateSnapshot(data);
+};
+
+// --- FILE ---
+
+export const snapshotFileName = (date: Date = new Date()) =>
+  `horta-${date.toISOString().slice(0, 10)}.json`;
+
+export const downloadSnapshot = (state: GameState) => {
+  const blob = new Blob([JSON.stringify(createSnapshot(state), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = snapshotFileName();
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- URL FRAGMENT ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const streamThrough = async (bytes: BlobPart, transform: CompressionStream | DecompressionStream) =>
+  new Response(new Blob([bytes]).stream().pipeThrough(transform));
+
+export const encodeSnapshotHash = async (state: GameState): Promise<string> => {
+  const compressed = await (await streamThrough(JSON.stringify(createSnapshot(state)), new CompressionStream('deflate-raw'))).arrayBuffer();
+  return `${SNAPSHOT_HASH_PREFIX}${toBase64Url(new Uint8Array(compressed))}`;
+};
+
+export const hasSnapshotHash = (hash: string) => hash.startsWith(SNAPSHOT_HASH_PREFIX);
+
+export const decodeSnapshotHash = async (hash: string): Promise<GardenLayout> => {
+  let json: string;
+  try {
+    const bytes = fromBase64Url(hash.slice(SNAPSHOT_HASH_PREFIX.length));
+    json = await (await streamThrough(bytes, new DecompressionStream('deflate-raw'))).text();
+  } catch {
+    return fail('O link da horta está incompleto ou corrompido.');
+  }
+  return parseSnapshotJson(json);
+};
+
+export const snapshotLink = async (state: GameState, location: Location = window.location) =>
+  `${location.origin}${location.pathname}${location.search}${await encodeSnapshotHash(state)}`;
@@ -0,0 +1,363 @@
+import { GAME_SPEEDS, getSpecies, isPlantType, isValidGardenSize, MAX_GARDEN_SIZE, MAX_MOISTURE, MAX_NUTRIENT, MAX_RESIDUE, MIN_GARDEN_SIZE, NUTRIENTS, POLLINATOR_KINDS, VIGOR_LOCI, type AllelePair, type CompostState, type GameSpeed, type GameState, type GardenSize, type Genotype, type HiveState, type Infestation, type MarketState, type PedigreeEntry, type PedigreeRegistry, type PestType, type PlantStage, type PlantState, type PlantType, type PlotState, type PollenSack, type PollinationMethod, type PollinatorAgent, type PollinatorKind, type ScheduledEvent, type SchedulerState, type SeedLot, type SoilState, type TimedEvent } from '../engine';
+import { SaveFormatError } from './errors';
+
+// Checks for the garden grid, shared by saved games and shared layouts. Every
+// reader returns the value it checked or throws a SaveFormatError saying where.
+
+const POLLINATION_METHODS: PollinationMethod[] = ['bee', 'butterfly', 'hummingbird', 'bat', 'wind', 'manual', 'self', 'buzz', 'clone'];
+const PEST_TYPES: PestType[] = ['aphid', 'caterpillar'];
+const PLANT_STAGES: PlantStage[] = ['seedling', 'vegetative', 'flowering', 'fruiting', 'senescent'];
+
+export type Data = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Data =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const fail = (message: string): never => {
+  throw new SaveFormatError(message);
+};
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const readFlag = (plot: Data, field: string, where: string): boolean => {
+  const value = plot[field] ?? false;
+  return typeof value === 'boolean' ? value : fail(`${where}: o campo "${field}" deve ser verdadeiro ou falso.`);
+};
+
+const readMoisture = (value: unknown, where: string): number =>
+  typeof value === 'number' && value >= 0 && value <= MAX_MOISTURE ? value : fail(`${where}: a umidade do solo deve ir de 0 a ${MAX_MOISTURE}.`);
+
+const readPesticide = (value: unknown, where: string): number =>
+  typeof value === 'number' && value >= 0 && value <= MAX_RESIDUE ? value : fail(`${where}: o resíduo de agrotóxico deve ir de 0 a ${MAX_RESIDUE}.`);
+
+const readSoil = (data: unknown, where: string): SoilState => {
+  if (!isObject(data)) return fail(`${where}: o lote não informa o solo (soil).`);
+  const levels = [...NUTRIENTS, 'organicMatter', 'salinity'].map(field => {
+    const value = data[field];
+    return typeof value === 'number' && value >= 0 && value <= MAX_NUTRIENT ? value : fail(`${where}: o campo "${field}" do solo deve ir de 0 a ${MAX_NUTRIENT}.`);
+  });
+  const [nitrogen, phosphorus, potassium, organicMatter, salinity] = levels;
+  return { nitrogen, phosphorus, potassium, organicMatter, salinity };
+};
+
+const readCropHistory = (data: unknown, where: string): PlantType[] => {
+  if (data === undefined) return [];
+  if (!Array.isArray(data) || !data.every(isPlantType)) return fail(`${where}: o histórico de culturas (cropHistory) só pode ter espécies conhecidas.`);
+  return data;
+};
+
+const readAllelePair = <A extends string>(data: unknown, alleles: readonly A[], where: string): AllelePair<A> => {
+  if (!Array.isArray(data) || data.length !== 2 || !data.every(allele => alleles.includes(allele))) {
+    return fail(`${where}: par de alelos inválido ${JSON.stringify(data)} (use ${alleles.join(' ou ')}).`);
+  }
+  return [data[0], data[1]];
+};
+
+const readGenotype = (data: unknown, where: string): Genotype => {
+  if (!isObject(data)) return fail(`${where}: a planta não tem genótipo.`);
+  const { vigor, color } = data;
+  if (!Array.isArray(vigor) || vigor.length !== VIGOR_LOCI) {
+    return fail(`${where}: o genótipo deve ter ${VIGOR_LOCI} genes de vigor.`);
+  }
+  return {
+    vigor: vigor.map((pair, locus) => readAllelePair(pair, ['V', 'v'], `${where}, gene de vigor ${locus + 1}`)),
+    color: readAllelePair(color, ['C', 'c'], `${where}, gene de cor`),
+  };
+};
+
+const readInfestation = (data: unknown, where: string): Infestation => {
+  if (!isObject(data) || !(PEST_TYPES as unknown[]).includes(data.pest)) return fail(`${where}: praga desconhecida (use ${PEST_TYPES.join(', ')}).`);
+  const { severity } = data;
+  if (typeof severity !== 'number' || severity <= 0 || severity > 100) return fail(`${where}: a gravidade da praga deve ir de 1 a 100.`);
+  return { pest: data.pest as PestType, severity };
+};
+
+const readPlant = (data: unknown, where: string): PlantState | null => {
+  if (data === null || data === undefined) return null;
+  if (!isObject(data)) return fail(`${where}: a planta não é um objeto.`);
+
+  const { instanceId, type, stage, stageStartedAt, parentIds, genotype, pollination, isBoosted, isBeeVisited, waterStress, infestation } = data;
+  if (typeof instanceId !== 'string' || instanceId.length === 0) return fail(`${where}: a planta não tem um identificador.`);
+  if (!isPlantType(type)) return fail(`${where}: espécie desconhecida "${String(type)}".`);
+  if (!(PLANT_STAGES as unknown[]).includes(stage)) return fail(`${where}: estágio de crescimento inválido "${String(stage)}".`);
+  if (stageStartedAt !== undefined && !isCount(stageStartedAt)) return fail(`${where}: o campo "stageStartedAt" deve ser um inteiro a partir de 0.`);
+  if (!Array.isArray(parentIds) || !parentIds.every(id => typeof id === 'string')) return fail(`${where}: a lista de pais (parentIds) é inválida.`);
+  if (parentIds.length > 2) return fail(`${where}: uma planta não pode ter mais de dois pais.`);
+  if (parentIds.includes(instanceId)) return fail(`${where}: uma planta não pode ser mãe ou pai de si mesma.`);
+  if (pollination !== undefined && !(POLLINATION_METHODS as unknown[]).includes(pollination)) {
+    return fail(`${where}: forma de polinização desconhecida "${String(pollination)}".`);
+  }
+  if (isBoosted !== undefined && typeof isBoosted !== 'boolean') return fail(`${where}: o campo "isBoosted" deve ser verdadeiro ou falso.`);
+  if (isBeeVisited !== undefined && typeof isBeeVisited !== 'boolean') return fail(`${where}: o campo "isBeeVisited" deve ser verdadeiro ou falso.`);
+  if (waterStress !== undefined && !isCount(waterStress)) return fail(`${where}: o campo "waterStress" deve ser um inteiro a partir de 0.`);
+
+  return {
+    instanceId,
+    type,
+    stage: stage as PlantStage,
+    ...(isCount(stageStartedAt) && { stageStartedAt }),
+    // The emoji always follows the species, whatever the file says
+    phenotype: getSpecies(type).emoji,
+    parentIds,
+    genotype: readGenotype(genotype, where),
+    ...(pollination !== undefined && { pollination: pollination as PollinationMethod }),
+    isBoosted: !!isBoosted,
+    ...(isBeeVisited && { isBeeVisited: true }),
+    ...(typeof waterStress === 'number' && waterStress > 0 && { waterStress }),
+    ...(infestation !== undefined && { infestation: readInfestation(infestation, where) }),
+  };
+};
+
+const readDebris = (data: unknown, where: string): PlantType | undefined => {
+  if (data === undefined) return undefined;
+  return isPlantType(data) ? data : fail(`${where}: restos de espécie desconhecida "${String(data)}".`);
+};
+
+const readGardenSize = (data: unknown): GardenSize => {
+  if (!isObject(data) || typeof data.width !== 'number' || typeof data.height !== 'number') {
+    return fail('A horta não informa largura e altura (gardenSize).');
+  }
+  const size = { width: data.width, height: data.height };
+  if (!isValidGardenSize(size)) {
+    return fail(`A horta deve ter de ${MIN_GARDEN_SIZE} a ${MAX_GARDEN_SIZE} lotes de largura e de altura, mas tem ${size.width}×${size.height}.`);
+  }
+  return size;
+};
+
+const readGarden = (data: unknown, { width, height }: GardenSize): PlotState[] => {
+  const plotCount = width * height;
+  if (!Array.isArray(data)) return fail('A horta (garden) deve ser uma lista de lotes.');
+  if (data.length !== plotCount) return fail(`A horta deve ter ${plotCount} lotes, mas tem ${data.length}.`);
+
+  const seenIds = new Set<string>();
+  return data.map((plot, index) => {
+    const where = `Lote ${index + 1}`;
+    if (!isObject(plot)) return fail(`${where}: não é um objeto.`);
+    if (plot.id !== index) return fail(`${where}: o identificador deveria ser ${index}, mas é ${String(plot.id)}.`);
+
+    const plant = readPlant(plot.plant, where);
+    const isDisabled = readFlag(plot, 'isDisabled', where);
+    if (plant && isDisabled) return fail(`${where}: um lote desativado não pode ter planta.`);
+    const debris = readDebris(plot.debris, where);
+    if (debris && (plant || isDisabled)) return fail(`${where}: só um lote vazio pode ter restos de planta.`);
+    if (plant) {
+      if (seenIds.has(plant.instanceId)) return fail(`${where}: a planta "${plant.instanceId}" aparece em mais de um lote.`);
+      seenIds.add(plant.instanceId);
+    }
+
+    return {
+      id: index,
+      plant,
+      isDisabled,
+      moisture: readMoisture(plot.moisture, where),
+      soil: readSoil(plot.soil, where),
+      cropHistory: readCropHistory(plot.cropHistory, where),
+      pesticide: readPesticide(plot.pesticide, where),
+      ...(debris && { debris }),
+    };
+  });
+};
+
+// No plant in the garden may descend from itself through the parents of the others
+const checkAncestry = (garden: PlotState[]) => {
+  const plants = new Map(garden.flatMap(plot => (plot.plant ? [[plot.plant.instanceId, plot.plant] as const] : [])));
+  const finished = new Set<string>();
+  const visit = (id: string, path: Set<string>) => {
+    if (finished.has(id) || !plants.has(id)) return;
+    if (path.has(id)) fail(`A planta "${id}" aparece entre os próprios ancestrais.`);
+    path.add(id);
+    plants.get(id)!.parentIds.forEach(parentId => visit(parentId, path));
+    path.delete(id);
+    finished.add(id);
+  };
+  plants.forEach((_, id) => visit(id, new Set()));
+};
+
+// The size of the grid and every plot in it, with plants that cannot descend from themselves
+export const readGardenPlots = (gardenSize: unknown, garden: unknown): { gardenSize: GardenSize; garden: PlotState[] } => {
+  const size = readGardenSize(gardenSize);
+  const plots = readGarden(garden, size);
+  checkAncestry(plots);
+  return { gardenSize: size, garden: plots };
+};
+
+// --- SAVED GAMES ---
+// What only a saved game carries: the clock, the lineage, the seeds, the animals and the stores
+
+const TIMER_KINDS: Record<TimedEvent['kind'], true> = {
+  grow: true, nextStage: true, nitrogenFixation: true, autogamyStart: true, autogamy: true, selfPollination: true,
+  buzzPollination: true, pollinatorFlight: true, animalPollination: true, windPollination: true, pollinatorsDied: true,
+  lonePlantHint: true, greenManureApplied: true, soilWater: true, pestCheck: true, notify: true,
+};
+
+const readNumber = (value: unknown, what: string, max = Infinity): number => {
+  if (typeof value === 'number' && value >= 0 && value <= max) return value;
+  return fail(max === Infinity ? `${what} deve ser um número a partir de 0.` : `${what} deve ir de 0 a ${max}.`);
+};
+
+const readId = (value: unknown, what: string): string =>
+  typeof value === 'string' && value.length > 0 ? value : fail(`${what} não tem um identificador.`);
+
+const readPlotId = (value: unknown, plotCount: number, what: string): number =>
+  isCount(value) && value < plotCount ? value : fail(`${what}: lote inexistente ${String(value)}.`);
+
+const readList = <T>(data: unknown, what: string, read: (item: unknown, where: string) => T): T[] =>
+  Array.isArray(data) ? data.map((item, index) => read(item, `${what} ${index + 1}`)) : fail(`${what}: deveria ser uma lista.`);
+
+const readPollenSack = (data: unknown, plotCount: number, where: string): PollenSack | null => {
+  if (data === null) return null;
+  if (!isObject(data)) return fail(`${where}: o pólen não é um objeto.`);
+  const plant = readPlant(data.plant, `${where}, pólen`);
+  if (!plant) return fail(`${where}: o pólen não diz de que planta veio.`);
+  return { plant, sourcePlotId: readPlotId(data.sourcePlotId, plotCount, `${where}, pólen`) };
+};
+
+// Only the fields an event may carry are checked; the handlers re-check the garden when it fires
+const readTimedEvent = (data: unknown, plotCount: number, where: string): TimedEvent => {
+  if (!isObject(data) || typeof data.kind !== 'string' || !Object.hasOwn(TIMER_KINDS, data.kind)) {
+    return fail(`${where}: evento desconhecido.`);
+  }
+  const event: Data = { ...data };
+  if ('plotId' in data) event.plotId = readPlotId(data.plotId, plotCount, where);
+  if ('instanceId' in data) event.instanceId = readId(data.instanceId, `${where}: a planta`);
+  if ('bacteriumId' in data) event.bacteriumId = readId(data.bacteriumId, `${where}: a bactéria`);
+  if ('pollen' in data) event.pollen = readPollenSack(data.pollen, plotCount, where);
+  if ('pollinator' in data && !(POLLINATOR_KINDS as unknown[]).includes(data.pollinator)) return fail(`${where}: polinizador desconhecido.`);
+  if ('plantType' in data && !isPlantType(data.plantType)) return fail(`${where}: espécie desconhecida "${String(data.plantType)}".`);
+  if ('plotIds' in data) event.plotIds = readList(data.plotIds, `${where}, lote`, (id, at) => readPlotId(id, plotCount, at));
+  if ('births' in data) {
+    event.births = readList(data.births, `${where}, semente`, (birth, at) => {
+      const plant = isObject(birth) ? readPlant(birth.plant, at) : null;
+      return plant && isObject(birth) ? { plotId: readPlotId(birth.plotId, plotCount, at), plant } : fail(`${at}: semente sem planta.`);
+    });
+  }
+  if (data.kind === 'notify' && (typeof data.title !== 'string' || typeof data.message !== 'string')) return fail(`${where}: aviso sem título ou mensagem.`);
+  return event as TimedEvent;
+};
+
+const readScheduler = (data: unknown, plotCount: number): SchedulerState => {
+  if (!isObject(data)) return fail('O relógio do jogo (scheduler) não é um objeto.');
+  const { tick, speed, paused, timers, nextTimerId } = data;
+  if (!isCount(tick)) return fail('O relógio do jogo: o tick deve ser um inteiro a partir de 0.');
+  if (!(GAME_SPEEDS as unknown[]).includes(speed)) return fail(`O relógio do jogo: a velocidade deve ser ${GAME_SPEEDS.join(', ')}.`);
+  if (typeof paused !== 'boolean') return fail('O relógio do jogo: o campo "paused" deve ser verdadeiro ou falso.');
+  if (!isCount(nextTimerId)) return fail('O relógio do jogo: o campo "nextTimerId" deve ser um inteiro a partir de 0.');
+  const events = readList(timers, 'Evento agendado', (timer, where): ScheduledEvent => {
+    if (!isObject(timer) || !isCount(timer.id) || timer.id >= nextTimerId) return fail(`${where}: identificador inválido.`);
+    if (typeof timer.at !== 'number') return fail(`${where}: não diz quando acontece.`);
+    return { id: timer.id, at: timer.at, event: readTimedEvent(timer.event, plotCount, where) };
+  });
+  return { tick, speed: speed as GameSpeed, paused, timers: events, nextTimerId };
+};
+
+const readPedigree = (data: unknown): PedigreeRegistry => {
+  if (!isObject(data)) return fail('A genealogia (pedigree) não é um objeto.');
+  return Object.fromEntries(Object.entries(data).map(([id, entry]): [string, PedigreeEntry] => {
+    const where = `Genealogia de "${id}"`;
+    if (!isObject(entry) || entry.instanceId !== id) return fail(`${where}: o registro não é da própria planta.`);
+    const { type, parentIds, genotype, pollination, generation, inbreeding, bornAt, harvestedAt, diedAt } = entry;
+    if (!isPlantType(type)) return fail(`${where}: espécie desconhecida "${String(type)}".`);
+    if (!Array.isArray(parentIds) || parentIds.length > 2 || !parentIds.every(parent => typeof parent === 'string' && parent !== id)) {
+      return fail(`${where}: a lista de pais (parentIds) é inválida.`);
+    }
+    if (pollination !== undefined && !(POLLINATION_METHODS as unknown[]).includes(pollination)) {
+      return fail(`${where}: forma de polinização desconhecida "${String(pollination)}".`);
+    }
+    if (!isCount(generation)) return fail(`${where}: a geração deve ser um inteiro a partir de 0.`);
+    if ([bornAt, harvestedAt ?? 0, diedAt ?? 0].some(at => typeof at !== 'number')) return fail(`${where}: datas inválidas.`);
+    return [id, {
+      instanceId: id,
+      type,
+      parentIds,
+      genotype: readGenotype(genotype, where),
+      ...(pollination !== undefined && { pollination: pollination as PollinationMethod }),
+      generation,
+      inbreeding: readNumber(inbreeding, `${where}: a endogamia`, 1),
+      bornAt: bornAt as number,
+      ...(harvestedAt !== undefined && { harvestedAt: harvestedAt as number }),
+      ...(diedAt !== undefined && { diedAt: diedAt as number }),
+    }];
+  }));
+};
+
+const readSeedBank = (data: unknown): SeedLot[] => readList(data, 'Lote de sementes', (lot, where): SeedLot => {
+  if (!isObject(lot)) return fail(`${where}: não é um objeto.`);
+  const { type, count, harvestedOn } = lot;
+  if (!isPlantType(type)) return fail(`${where}: espécie desconhecida "${String(type)}".`);
+  if (!isCount(count) || count < 1) return fail(`${where}: deve ter pelo menos uma semente.`);
+  if (!isCount(harvestedOn)) return fail(`${where}: o dia da colheita deve ser um inteiro a partir de 0.`);
+  const crosses = readList(lot.crosses, `${where}, cruzamento`, (cross, at) => (
+    isObject(cross) && (POLLINATION_METHODS as unknown[]).includes(cross.pollination)
+      ? { partnerId: readId(cross.partnerId, `${at}: o parceiro`), pollination: cross.pollination as PollinationMethod }
+      : fail(`${at}: forma de polinização desconhecida.`)
+  ));
+  if (crosses.length === 0) return fail(`${where}: não diz de que cruzamento veio.`);
+  return { id: readId(lot.id, where), type, motherId: readId(lot.motherId, `${where}: a planta mãe`), crosses, count, harvestedOn };
+});
+
+const readPollinators = (data: unknown, plotCount: number): PollinatorAgent[] => readList(data, 'Polinizador', (agent, where): PollinatorAgent => {
+  if (!isObject(agent)) return fail(`${where}: não é um objeto.`);
+  if (!(POLLINATOR_KINDS as unknown[]).includes(agent.kind)) return fail(`${where}: espécie desconhecida "${String(agent.kind)}".`);
+  if (agent.isDying !== undefined && typeof agent.isDying !== 'boolean') return fail(`${where}: o campo "isDying" deve ser verdadeiro ou falso.`);
+  return {
+    id: readId(agent.id, where),
+    kind: agent.kind as PollinatorKind,
+    homePlotId: readPlotId(agent.homePlotId, plotCount, `${where}, casa`),
+    plotId: readPlotId(agent.plotId, plotCount, where),
+    path: readList(agent.path, `${where}, visita`, (id, at) => readPlotId(id, plotCount, at)),
+    pollen: readPollenSack(agent.pollen ?? null, plotCount, where),
+    ...(agent.isDying && { isDying: true }),
+  };
+});
+
+const readHive = (data: unknown): HiveState => {
+  if (!isObject(data)) return fail('A colmeia (hive) não é um objeto.');
+  return {
+    population: readNumber(data.population, 'A população da colmeia'),
+    health: readNumber(data.health, 'A saúde da colmeia', 100),
+    history: readList(data.history, 'Histórico da colmeia, dia', (record, where) => (isObject(record) ? {
+      day: readNumber(record.day, `${where}: o dia`),
+      population: readNumber(record.population, `${where}: a população`),
+      health: readNumber(record.health, `${where}: a saúde`, 100),
+    } : fail(`${where}: não é um objeto.`))),
+  };
+};
+
+const readMarket = (data: unknown): MarketState => {
+  if (!isObject(data) || !isObject(data.demand)) return fail('A feira (market) não informa o caixa e a procura.');
+  return {
+    cash: readNumber(data.cash, 'O caixa'),
+    demand: Object.fromEntries(Object.entries(data.demand).map(([type, demand]) => (
+      isPlantType(type) ? [type, readNumber(demand, `A procura por ${type}`)] : fail(`A feira: espécie desconhecida "${type}".`)
+    ))),
+  };
+};
+
+const readCompost = (data: unknown): CompostState => {
+  if (!isObject(data)) return fail('A composteira (compost) não é um objeto.');
+  return {
+    batches: readList(data.batches, 'Leva da composteira', (batch, where) => (
+      isObject(batch) && isCount(batch.startedOn)
+        ? { startedOn: batch.startedOn, material: readNumber(batch.material, `${where}: o material`) }
+        : fail(`${where}: não diz em que dia começou.`)
+    )),
+    fertilizer: readNumber(data.fertilizer, 'O composto pronto'),
+  };
+};
+
+// The plots and every other part of a saved game that the rules read back
+export const readSavedGame = (state: Data): Partial<GameState> => {
+  const plots = readGardenPlots(state.gardenSize, state.garden);
+  const plotCount = plots.garden.length;
+  return {
+    ...plots,
+    scheduler: readScheduler(state.scheduler, plotCount),
+    pedigree: readPedigree(state.pedigree),
+    seedBank: readSeedBank(state.seedBank),
+    pollinators: readPollinators(state.pollinators, plotCount),
+    pollenSack: readPollenSack(state.pollenSack ?? null, plotCount, 'Saco de pólen'),
+    hive: readHive(state.hive),
+    market: readMarket(state.market),
+    compost: readCompost(state.compost),
+  };
+};